@@ -1,10 +1,7 @@
-import autoprefixer from 'autoprefixer';
-import html, { defaultMinifyOptions } from 'bun-plugin-html';
-import postcss from 'postcss';
-import tailwindcss from 'tailwindcss';
-import twconfig from './tailwind.config.ts';
+import type { BuildConfig } from 'bun';
+import html, { postcss } from 'bun-plugin-html';
 
-await Bun.build({
+export const config: BuildConfig = {
 	entrypoints: ['src/index.html'],
 	outdir: 'dist',
 	naming: '[dir]/[name].[ext]',
@@ -12,19 +9,12 @@ await Bun.build({
 	plugins: [
 		html({
 			inline: true,
-			async preprocessor(processor) {
-				const files = processor.getFiles();
-
-				for (const file of files) {
-					if (file.extension === '.css') {
-						const contents = await postcss([
-							tailwindcss(twconfig),
-							autoprefixer(),
-						]).process(await file.content, { from: undefined });
-						processor.writeFile(file.path, contents.css);
-					}
-				}
+			// runs tailwindcss and autoprefixer from postcss.config.js
+			styleTransformers: {
+				'.css': postcss(),
 			},
 		}),
 	],
-});
+};
+
+if (import.meta.main) await Bun.build(config);
@@ -1,15 +1,19 @@
 /// <reference lib="dom" />
 /// <reference lib="dom.iterable" />
 
+import { type FSWatcher, watch as fsWatch } from 'node:fs';
 import fs from 'node:fs/promises';
 import os from 'node:os';
 import path, { resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
 import {
 	type BuildArtifact,
 	type BuildConfig,
+	type BuildOutput,
 	type BunFile,
 	type BunPlugin,
 	type PluginBuilder,
+	type Server,
 	file,
 } from 'bun';
 import CleanCSS, { type OptionsOutput as CleanCssOptions } from 'clean-css';
@@ -20,17 +24,43 @@ import {
 import * as sass from 'sass';
 import { type MinifyOptions, minify as terser } from 'terser';
 import {
+	type ContentSecurityPolicy,
+	type FileAttribute,
 	type FileDetails,
+	type IntegrityAlgorithm,
+	OutputArtifact,
+	type OutputImport,
 	Processor,
+	type SourceMap,
+	addSourceMapComment,
 	attributeToSelector,
 	changeFileExtension,
 	contentToString,
+	dataURLToSourceMap,
+	dedent,
 	findLastCommonPath,
 	getColumnNumber,
+	getImportedFiles,
+	getIntegrity,
+	getLineSourceMap,
 	getLines,
+	getNodeModulesPaths,
+	getOutputPathMatcher,
+	getPathSuffix,
+	getStyleReferences,
+	isImportedBy,
 	isURL,
+	parseContentSecurityPolicy,
+	parseSrcset,
+	relocateSourceMap,
 	removeCommonPath,
+	removeSourceMapComment,
+	replaceStyleReferences,
 	returnLineNumberOfOccurance,
+	sourceMapToDataURL,
+	stringifyContentSecurityPolicy,
+	stringifySrcset,
+	toDataURI,
 } from './utils';
 
 export type File = {
@@ -74,12 +104,19 @@ export type BunPluginHTMLOptions = {
 	 * Choose which selectors to exclude. Only one is excluded by default, that being `a`
 	 */
 	excludeSelectors?: string[];
+	/**
+	 * Maps selectors to additional attributes which reference files, for example
+	 * `{ 'use': ['xlink:href'], 'meta[property="og:image"]': ['content'] }`. Matching files are
+	 * bundled and their references rewritten, just like `src` and `href`.
+	 */
+	includeAttributes?: { [selector: string]: string[] };
 	/**
 	 * Processes the files before they are processed by `bun-plugin-html`. Useful for things like tailwindcss.
 	 */
 	preprocessor?: (processor: Processor) => void | Promise<void>;
 	/**
-	 * Determines whether file paths in the source code are replaced by new paths.
+	 * Determines whether the references the plugin discovers (html attributes, the `url()` and `@import`
+	 * of stylesheets and the imports between bundled scripts) are replaced by the new paths of their files.
 	 * - If `true`, path replacement is completely skipped.
 	 * - If an array of strings is provided, only the specified file paths are excluded from replacement.
 	 * - If omitted or `false`, all paths are replaced by default.
@@ -90,6 +127,104 @@ export type BunPluginHTMLOptions = {
 	 * you are doing works, but are still getting errors. `true` means that the errors won't be logged.
 	 */
 	suppressErrors?: boolean;
+	/**
+	 * Emits a manifest mapping every source file to its output file, like Vite's `manifest.json`. A string
+	 * sets the path of the manifest within the outdir, which defaults to `manifest.json`.
+	 */
+	manifest?: boolean | string;
+	/**
+	 * Adds Subresource Integrity `integrity` and `crossorigin` attributes to the `<script>` and `<link>`
+	 * elements referencing emitted scripts and stylesheets, hashed with `sha384` unless another algorithm is given.
+	 */
+	integrity?: boolean | IntegrityAlgorithm;
+	/**
+	 * Adds the sha256 hashes of the inline `<script>` and `<style>` blocks of every html file to its
+	 * Content-Security-Policy `<meta>`, which is injected into `<head>` when missing. Set `meta` to false to
+	 * leave the html untouched, the policies are also listed in the manifest as `csp`.
+	 */
+	csp?:
+		| boolean
+		| {
+				meta?: boolean;
+		  };
+	/**
+	 * Options for compiling `.scss` and `.sass` files and inline `<style lang="scss">` blocks, like
+	 * `loadPaths`, `importers` or `silenceDeprecations`. Stylesheets are always compiled from their own
+	 * location, with the `node_modules` directories above them as the last load paths.
+	 */
+	sassOptions?: SassOptions;
+	/**
+	 * Embeds the assets referenced by html attributes and stylesheet `url()`s as data URIs instead of
+	 * writing them, when they are at most this many bytes. A number applies to every asset, an object sets
+	 * the limit by extension, like `{ '.svg': 4096, '.woff2': 0 }`. Scripts and stylesheets are never embedded.
+	 */
+	inlineLimit?: number | { [extension: string]: number };
+	/**
+	 * Compiles stylesheets by extension, like `{ '.less': lessTransformer, '.css': postcss() }`, before they
+	 * are minified. `.scss` and `.sass` files are compiled with sass unless their extension is given.
+	 */
+	styleTransformers?: { [extension: string]: StyleTransformer };
+	/**
+	 * Replaces `%NAME%` placeholders in the html files and stylesheets with the values of
+	 * `Bun.build({ define })` and of the environment variables starting with `envPrefix`, `PUBLIC_` by
+	 * default. Placeholders without a value fail the build. Unless `ifEnv` is false, elements whose
+	 * `data-if-env="NAME"` or `data-if-env="NAME=value"` doesn't hold for those values are removed.
+	 */
+	placeholders?:
+		| boolean
+		| {
+				envPrefix?: string;
+				ifEnv?: boolean;
+		  };
+};
+
+export type SassOptions = Omit<
+	sass.StringOptions<'sync'>,
+	'url' | 'syntax' | 'sourceMap' | 'sourceMapIncludeSources'
+>;
+
+export type StyleTransformResult = {
+	css: string;
+	/** The source map of the css, with absolute source paths. */
+	sourceMap?: SourceMap;
+	/** The other files the css was compiled from, which are watched as well. */
+	dependencies?: string[];
+};
+
+/**
+ * Compiles the content of a stylesheet read from `filePath` into css. A source map is only expected
+ * when `sourceMap` is set.
+ */
+export type StyleTransformer = (
+	content: string,
+	filePath: string,
+	context: { sourceMap: boolean },
+) => StyleTransformResult | Promise<StyleTransformResult>;
+
+export type { SourceMap };
+
+export type ManifestChunk = {
+	/** The output path, relative to the outdir. */
+	file: string;
+	/** The source path, relative to the common path of all sources. */
+	src?: string;
+	isEntry?: boolean;
+	/** The source path of the html file that references this file. */
+	htmlImporter?: string;
+	/** For html entrypoints, the output paths of their scripts. */
+	js?: string[];
+	/** For html entrypoints, the output paths of their stylesheets. */
+	css?: string[];
+	/** For html entrypoints, the output paths of the chunks shared by their scripts. */
+	imports?: string[];
+	/** For html entrypoints, the output paths of their other files. */
+	assets?: string[];
+	/** For html entrypoints, their Content-Security-Policy when the `csp` option is set. */
+	csp?: string;
+};
+
+export type Manifest = {
+	[src: string]: ManifestChunk;
 };
 
 const attributesToSearch = [
@@ -99,6 +234,15 @@ const attributesToSearch = [
 	'action',
 	'data-src',
 	'lowsrc',
+	'poster',
+] as const;
+const srcsetAttributesToSearch: readonly string[] = [
+	'srcset',
+	'imagesrcset',
+] as const;
+const defaultAttributesToSearch: readonly string[] = [
+	...attributesToSearch,
+	...srcsetAttributesToSearch,
 ] as const;
 const extensionsToBuild: readonly string[] = [
 	'.js',
@@ -106,6 +250,43 @@ const extensionsToBuild: readonly string[] = [
 	'.ts',
 	'.tsx',
 ] as const;
+const htmlExtensionMatcher = /\.(html|htm)$/;
+const htmlEntrypointError =
+	'bun-plugin-html builds html entrypoints itself, use `build` from bun-plugin-html to receive their outputs.';
+type PluginState = {
+	/** The files written during the latest build. */
+	outputs: BuildArtifact[];
+	/** Every html entrypoint of the latest build mapped to the source files it is built from. */
+	dependencies: Map<string, Set<string>>;
+	/** The path outputs are placed relative to, kept between builds once `incremental` is set. */
+	commonPath?: string;
+	/** The manifest of the latest build, which incremental builds extend instead of replace. */
+	manifest: Manifest;
+	/**
+	 * Set by `watch`, whose rebuilds only include the affected entrypoints, so output paths mustn't
+	 * depend on the files of a single build.
+	 */
+	incremental: boolean;
+	/** The extensions of the stylesheets the plugin compiles, those of `styleTransformers` included. */
+	styleExtensions: readonly string[];
+	/**
+	 * Every entrypoint of the running `build`, which only passes those that aren't html to Bun.build, as
+	 * it can not bundle the html ones, nor be called without any entrypoints.
+	 */
+	entrypoints?: string[];
+};
+
+const pluginStates: WeakMap<BunPlugin, PluginState> = new WeakMap();
+const inlineModuleSelector = 'script[type="module"]:not([src])';
+const includeSelector = 'include[src]';
+const layoutSelector = 'html[data-layout]';
+const slotSelector = 'slot[name]';
+const slotTemplateSelector = 'template[slot]';
+const layoutReferenceSelector = 'link[rel="stylesheet"][href], script[src]';
+const ifEnvSelector = '[data-if-env]';
+const placeholderMatcher = /%([A-Z_][A-Z0-9_]*)%/g;
+const percentEncodedMatcher = /^[0-9A-F]{2}$/;
+const styleExtensions: readonly string[] = ['.css', '.scss', '.sass'] as const;
 const selectorsToExclude: readonly string[] = ['a'] as const;
 
 export type HtmlMinifyOptions = HTMLTerserOptions & {
@@ -122,10 +303,356 @@ export const defaultMinifyOptions: HtmlMinifyOptions = {
 	removeRedundantAttributes: true,
 } as const;
 
+function getExcludedSelector(excluded: readonly string[]) {
+	let excludedSelector = '';
+
+	for (const exclude of excluded) {
+		excludedSelector += `:not(${exclude})`;
+	}
+
+	return excludedSelector;
+}
+
+/**
+ * Rewrites the relative references of html merged into another file, such as an included file or a
+ * layout, from being relative to `fromPath` to being relative to `toPath`.
+ */
+function rebaseReferences(
+	options: BunPluginHTMLOptions | undefined,
+	content: string,
+	fromPath: string,
+	toPath: string,
+) {
+	if (path.dirname(fromPath) === path.dirname(toPath)) return content;
+
+	const rebase = (reference: string) => {
+		if (!reference || isURL(reference)) return reference;
+		const suffix = getPathSuffix(reference);
+		const referencePath = path.resolve(
+			path.dirname(fromPath),
+			suffix ? reference.slice(0, -suffix.length) : reference,
+		);
+		return path.relative(path.dirname(toPath), referencePath) + suffix;
+	};
+	const rebaseAttributes = (
+		el: HTMLRewriterTypes.Element,
+		attributeNames: readonly string[],
+	) => {
+		for (const attribute of attributeNames) {
+			const value = el.getAttribute(attribute);
+			if (!value) continue;
+			const rebased = srcsetAttributesToSearch.includes(attribute)
+				? stringifySrcset(
+						parseSrcset(value).map(({ url, descriptor }) => ({
+							url: rebase(url),
+							descriptor,
+						})),
+					)
+				: rebase(value);
+			if (rebased !== value) el.setAttribute(attribute, rebased);
+		}
+	};
+
+	const rewriter = new HTMLRewriter().on('*', {
+		element(el) {
+			rebaseAttributes(el, defaultAttributesToSearch);
+		},
+	});
+	for (const [selector, attributeNames] of Object.entries(
+		options?.includeAttributes ?? {},
+	)) {
+		const extraAttributes = attributeNames.filter(
+			(attribute) => !defaultAttributesToSearch.includes(attribute),
+		);
+		if (extraAttributes.length === 0) continue;
+
+		rewriter.on(selector, {
+			element(el) {
+				rebaseAttributes(el, extraAttributes);
+			},
+		});
+	}
+
+	return rewriter.transform(content);
+}
+
+/**
+ * Replaces every `<include src="...">` element with the content of the html file it points to,
+ * resolved relative to the including file. Included files are expanded the same way, their references
+ * are rebased onto the including file, and their paths are added to `includes`.
+ */
+async function expandIncludes(
+	options: BunPluginHTMLOptions | undefined,
+	content: string,
+	filePath: string,
+	includes: Set<string>,
+	including: readonly string[] = [filePath],
+): Promise<string> {
+	const rewriter = new HTMLRewriter();
+
+	rewriter.on(includeSelector, {
+		async element(el) {
+			const src = el.getAttribute('src') as string;
+			const includePath = path.resolve(path.dirname(filePath), src);
+			const file = Bun.file(includePath);
+
+			let error: string | undefined;
+			if (including.includes(includePath))
+				error = `Specified <include> src '${src}' includes itself!`;
+			else if (!(await file.exists()))
+				error = `Specified <include> src '${src}' does not exist!`;
+			if (error) {
+				if (options?.suppressErrors !== true) {
+					console.error(`bun-plugin-html - HTMLParseError: ${error}`);
+					console.log(`	  at ${filePath}`);
+				}
+				el.remove();
+				return;
+			}
+
+			includes.add(includePath);
+			const included = await expandIncludes(
+				options,
+				await file.text(),
+				includePath,
+				includes,
+				[...including, includePath],
+			);
+			el.replace(rebaseReferences(options, included, includePath, filePath), {
+				html: true,
+			});
+		},
+	});
+
+	return rewriter.transform(content);
+}
+
+/**
+ * Builds a page declaring a layout with `<html data-layout="...">` from that layout, resolved
+ * relative to the page. Every `<slot name="...">` of the layout is replaced with the content of the
+ * page's `<template slot="...">` of the same name, or keeps its own content when the page has none.
+ * References in a layout are resolved relative to the layout and rebased onto the page. Layouts may declare layouts themselves, and the stylesheets and scripts referenced by both the page
+ * and its layouts are only kept once.
+ */
+async function applyLayout(
+	options: BunPluginHTMLOptions | undefined,
+	content: string,
+	filePath: string,
+	includes: Set<string>,
+	using: readonly string[] = [filePath],
+): Promise<string> {
+	let layout: string | undefined;
+	const slotNames: string[] = [];
+	const marked = new HTMLRewriter()
+		.on(layoutSelector, {
+			element(el) {
+				layout = el.getAttribute('data-layout') as string;
+				el.removeAttribute('data-layout');
+			},
+		})
+		.on(slotTemplateSelector, {
+			element(el) {
+				const index = slotNames.push(el.getAttribute('slot') as string) - 1;
+				el.before(`<!--bun-plugin-html-slot-${index}-->`, { html: true });
+				el.after(`<!--/bun-plugin-html-slot-${index}-->`, { html: true });
+				el.removeAndKeepContent();
+			},
+		})
+		.transform(content);
+	if (layout === undefined) return content;
+
+	const layoutPath = path.resolve(path.dirname(filePath), layout);
+	const file = Bun.file(layoutPath);
+	let error: string | undefined;
+	if (using.includes(layoutPath))
+		error = `Specified data-layout '${layout}' uses itself!`;
+	else if (!(await file.exists()))
+		error = `Specified data-layout '${layout}' does not exist!`;
+	if (error) {
+		if (options?.suppressErrors !== true) {
+			console.error(`bun-plugin-html - HTMLParseError: ${error}`);
+			console.log(`	  at ${filePath}`);
+		}
+		return marked.replace(/<!--\/?bun-plugin-html-slot-\d+-->/g, '');
+	}
+
+	const slots: Map<string, string> = new Map();
+	for (const [index, name] of slotNames.entries()) {
+		const start = `<!--bun-plugin-html-slot-${index}-->`;
+		const startIndex = marked.indexOf(start) + start.length;
+		const endIndex = marked.indexOf(`<!--/bun-plugin-html-slot-${index}-->`);
+		slots.set(name, marked.substring(startIndex, endIndex));
+	}
+
+	includes.add(layoutPath);
+	// the references of the layout, and of the files it includes, are relative to the page like its own
+	const layoutText = rebaseReferences(
+		options,
+		await expandIncludes(options, await file.text(), layoutPath, includes),
+		layoutPath,
+		using[0],
+	);
+	const filled = new HTMLRewriter()
+		.on(slotSelector, {
+			element(el) {
+				const slot = slots.get(el.getAttribute('name') as string);
+				if (slot === undefined) el.removeAndKeepContent();
+				else el.replace(slot, { html: true });
+			},
+		})
+		.transform(layoutText);
+	const merged = await applyLayout(options, filled, layoutPath, includes, [
+		...using,
+		layoutPath,
+	]);
+	// only the outermost page removes the references its layouts share with it
+	if (using.length > 1) return merged;
+
+	const referenced: Set<string> = new Set();
+	return new HTMLRewriter()
+		.on(layoutReferenceSelector, {
+			element(el) {
+				const value = (el.getAttribute('src') ??
+					el.getAttribute('href')) as string;
+				const reference = isURL(value)
+					? value
+					: path.resolve(path.dirname(filePath), value);
+				if (referenced.has(reference)) el.remove();
+				else referenced.add(reference);
+			},
+		})
+		.transform(merged);
+}
+
+/**
+ * Collects the values of the `%NAME%` placeholders, from `define`, whose values are decoded when they are
+ * JSON strings, and from the environment variables starting with the `envPrefix`.
+ */
+function getPlaceholderValues(
+	options: BunPluginHTMLOptions | undefined,
+	config: BuildConfig,
+) {
+	if (!options?.placeholders) return undefined;
+	const envPrefix =
+		(typeof options.placeholders === 'object' &&
+			options.placeholders.envPrefix) ||
+		'PUBLIC_';
+	const values: Map<string, string> = new Map();
+
+	for (const [name, value] of Object.entries(config.define ?? {})) {
+		try {
+			const decoded = JSON.parse(value);
+			values.set(name, typeof decoded === 'string' ? decoded : value);
+		} catch {
+			values.set(name, value);
+		}
+	}
+	for (const [name, value] of Object.entries(process.env)) {
+		if (name.startsWith(envPrefix) && value !== undefined)
+			values.set(name, value);
+	}
+
+	return values;
+}
+
+/**
+ * Replaces the `%NAME%` placeholders of `content`, and throws for placeholders without a value. In html,
+ * values are escaped in attributes and text, but not in the raw text of `<script>` and `<style>` blocks.
+ */
+function replacePlaceholders(
+	content: string,
+	values: Map<string, string>,
+	filePath: string,
+	html: boolean,
+) {
+	let unknown: string | undefined;
+	const replace = (text: string, escaped: boolean) =>
+		text.replace(placeholderMatcher, (placeholder, name: string) => {
+			// like `%C3%` in `caf%C3%A9`, a percent-encoded byte of a url
+			if (percentEncodedMatcher.test(name)) return placeholder;
+			const value = values.get(name);
+			if (value === undefined) {
+				unknown ??= placeholder;
+				return placeholder;
+			}
+			return escaped ? Bun.escapeHTML(value) : value;
+		});
+
+	let replaced: string;
+	if (!html) replaced = replace(content, false);
+	else {
+		let raw = false;
+		// text arrives in chunks, which may split a placeholder
+		let pending = '';
+		replaced = new HTMLRewriter()
+			.on('*', {
+				element(el) {
+					for (const [name, value] of el.attributes) {
+						const attribute = replace(value, true);
+						if (attribute !== value) el.setAttribute(name, attribute);
+					}
+				},
+			})
+			.on('script, style', {
+				element(el) {
+					raw = true;
+					el.onEndTag(() => {
+						raw = false;
+					});
+				},
+			})
+			.onDocument({
+				text(text) {
+					pending += text.text;
+					if (!text.lastInTextNode) {
+						text.remove();
+						return;
+					}
+					text.replace(replace(pending, !raw), { html: true });
+					pending = '';
+				},
+				comments(comment) {
+					comment.text = replace(comment.text, true);
+				},
+			})
+			.transform(content);
+	}
+
+	// errors thrown by the handlers of HTMLRewriter are lost
+	if (unknown !== undefined)
+		throw new Error(
+			`bun-plugin-html - Unknown placeholder '${unknown}' in ${filePath}`,
+		);
+	return replaced;
+}
+
+/**
+ * Removes the elements whose `data-if-env` doesn't hold. `NAME` holds when the value is set and isn't
+ * empty, `false` or `0`, and `NAME=value` when it equals that value.
+ */
+function removeIfEnvElements(content: string, values: Map<string, string>) {
+	return new HTMLRewriter()
+		.on(ifEnvSelector, {
+			element(el) {
+				const condition = el.getAttribute('data-if-env') as string;
+				const [name, expected] = condition.split('=', 2);
+				const value = values.get(name.trim());
+				const holds =
+					expected === undefined
+						? value !== undefined && !['', 'false', '0'].includes(value)
+						: value === expected.trim();
+				if (holds) el.removeAttribute('data-if-env');
+				else el.remove();
+			},
+		})
+		.transform(content);
+}
+
 async function getAllFiles(
 	options: BunPluginHTMLOptions | undefined,
 	filePath: string,
 	excluded: readonly string[],
+	placeholders: Map<string, string> | undefined,
 ) {
 	const extension = path.parse(filePath).ext;
 	if (extension !== '.htm' && extension !== '.html') return [];
@@ -135,7 +662,28 @@ async function getAllFiles(
 
 	const htmlResolvedPath = path.resolve(filePath);
 	const originalFile = Bun.file(htmlResolvedPath);
-	let fileText = await originalFile.text();
+	// the included and layout files the page is built from
+	const includes: Set<string> = new Set();
+	const originalText = await originalFile.text();
+	let fileText = await applyLayout(
+		options,
+		await expandIncludes(options, originalText, htmlResolvedPath, includes),
+		htmlResolvedPath,
+		includes,
+	);
+	if (placeholders) {
+		if (
+			typeof options?.placeholders !== 'object' ||
+			options.placeholders.ifEnv !== false
+		)
+			fileText = removeIfEnvElements(fileText, placeholders);
+		fileText = replacePlaceholders(
+			fileText,
+			placeholders,
+			htmlResolvedPath,
+			true,
+		);
+	}
 
 	const hash = Bun.hash(fileText, 1).toString(16).slice(0, 8);
 
@@ -143,87 +691,173 @@ async function getAllFiles(
 		file: originalFile,
 		details: {
 			kind: 'entry-point',
+			// the html with its includes expanded, its layout applied and its placeholders replaced
+			content: fileText !== originalText ? fileText : undefined,
+			dependencies: includes.size ? [...includes] : undefined,
 			hash,
 			originalPath: htmlResolvedPath,
 			htmlImporter: htmlResolvedPath,
 		},
 	});
 
-	let excludedSelector = '';
-
-	for (const exclude of excluded) {
-		excludedSelector += `:not(${exclude})`;
-	}
+	const excludedSelector = getExcludedSelector(excluded);
 
-	rewriter.on(excludedSelector, {
-		async element(el) {
-			let attributeName: string | undefined;
-			let attributeValue: string | null | undefined;
-
-			for (const attribute of attributesToSearch) {
-				if (el.hasAttribute(attribute)) {
-					attributeName = attribute;
-					attributeValue = el.getAttribute(attribute);
-					break;
-				}
+	const addReference = async (
+		el: HTMLRewriterTypes.Element,
+		found: Map<string, File>,
+		attributeName: string,
+		attributeValue: string,
+		candidate?: string,
+	) => {
+		let reference = candidate ?? attributeValue;
+		if (!reference || isURL(reference)) return;
+		// with extra query or hash
+		const suffix = getPathSuffix(reference);
+		reference = reference.substring(0, reference.length - suffix.length);
+		const resolvedPath = path.resolve(path.dirname(filePath), reference);
+		const extension = path.parse(resolvedPath).ext;
+		if (options?.excludeExtensions?.includes(extension)) return;
+		const file = Bun.file(resolvedPath);
+
+		if (!(await file.exists())) {
+			fileText = fileText.replace(/\t/g, '	');
+			const search =
+				candidate === undefined
+					? `${attributeName}="${reference}${suffix}"`
+					: `${reference}${suffix}`;
+			const line = returnLineNumberOfOccurance(fileText, search);
+			const columnNumber =
+				getColumnNumber(
+					fileText,
+					fileText.indexOf(search) + search.length / 2,
+				) +
+				`${line}`.length +
+				1;
+			if (options?.suppressErrors !== true) {
+				console.log(getLines(fileText, 4, line + 1));
+				console.log('^'.padStart(columnNumber));
+				console.error(
+					`bun-plugin-html - HTMLParseError: Specified <${el.tagName}> ${attributeName} '${reference}' does not exist!`,
+				);
+				console.log(`	  at ${filePath}:${line}:${columnNumber}`);
 			}
+			return;
+		}
 
-			if (!attributeName || !attributeValue || isURL(attributeValue)) return;
-			const pathExtraTail = attributeValue.match(/[?#]/);
-			let suffix = '';
-			if (pathExtraTail?.index) {
-				// with extra query or hash
-				suffix = attributeValue.substring(pathExtraTail.index) + suffix;
-				attributeValue = attributeValue.substring(0, pathExtraTail.index);
-			}
-			const resolvedPath = path.resolve(path.dirname(filePath), attributeValue);
-			const extension = path.parse(resolvedPath).ext;
-			if (options?.excludeExtensions?.includes(extension)) return;
-			const file = Bun.file(resolvedPath);
-
-			if (!(await file.exists())) {
-				fileText = fileText.replace(/\t/g, '	');
-				const search = `${attributeName}="${attributeValue}${suffix}"`;
-				const line = returnLineNumberOfOccurance(fileText, search);
-				const columnNumber =
-					getColumnNumber(
-						fileText,
-						fileText.indexOf(search) + search.length / 2,
-					) +
-					`${line}`.length +
-					1;
-				if (options?.suppressErrors !== true) {
-					console.log(getLines(fileText, 4, line + 1));
-					console.log('^'.padStart(columnNumber));
-					console.error(
-						`bun-plugin-html - HTMLParseError: Specified <${el.tagName}> ${attributeName} '${attributeValue}' does not exist!`,
-					);
-					console.log(`	  at ${filePath}:${line}:${columnNumber}`);
+		const attribute: FileAttribute = {
+			name: attributeName,
+			value: attributeValue,
+			candidate,
+		};
+
+		// the same file referenced by multiple attributes of an element is described by one entry
+		const existing = found.get(resolvedPath);
+		if (existing) {
+			existing.details.attributes?.push(attribute);
+			return;
+		}
+
+		found.set(resolvedPath, {
+			file,
+			details: {
+				kind: 'chunk',
+				attributes: [attribute],
+				attribute,
+				hash: Bun.hash(await file.arrayBuffer(), 1)
+					.toString(16)
+					.slice(0, 8),
+				originalPath: resolvedPath,
+				htmlImporter: htmlResolvedPath,
+			},
+		});
+	};
+
+	const addReferences = async (
+		el: HTMLRewriterTypes.Element,
+		attributeNames: readonly string[],
+	) => {
+		const found: Map<string, File> = new Map();
+
+		for (const attribute of attributeNames) {
+			const attributeValue = el.getAttribute(attribute);
+			if (!attributeValue) continue;
+
+			if (srcsetAttributesToSearch.includes(attribute)) {
+				for (const { url } of parseSrcset(attributeValue)) {
+					await addReference(el, found, attribute, attributeValue, url);
 				}
-				return;
+				continue;
 			}
 
-			files.push({
-				file,
-				details: {
-					kind: 'chunk',
-					attribute: {
-						name: attributeName,
-						value: `${attributeValue}${suffix}`,
-					},
-					hash,
-					originalPath: resolvedPath,
-					htmlImporter: htmlResolvedPath,
-				},
-			});
+			await addReference(el, found, attribute, attributeValue);
+		}
+
+		files.push(...found.values());
+	};
+
+	rewriter.on(excludedSelector, {
+		async element(el) {
+			await addReferences(el, defaultAttributesToSearch);
+		},
+	});
+
+	for (const [selector, attributeNames] of Object.entries(
+		options?.includeAttributes ?? {},
+	)) {
+		// attributes searched on every element are already collected above
+		const extraAttributes = attributeNames.filter(
+			(attribute) => !defaultAttributesToSearch.includes(attribute),
+		);
+		if (extraAttributes.length === 0) continue;
+
+		rewriter.on(`${selector}${excludedSelector}`, {
+			async element(el) {
+				await addReferences(el, extraAttributes);
+			},
+		});
+	}
+
+	// inline module scripts are bundled through virtual entrypoints next to the html file
+	const inlineModules: string[] = [];
+	rewriter.on(`${inlineModuleSelector}${excludedSelector}`, {
+		element() {
+			inlineModules.push('');
+		},
+		text(text) {
+			inlineModules[inlineModules.length - 1] += text.text;
 		},
 	});
 
 	rewriter.transform(fileText);
 
+	for (const [index, content] of inlineModules.entries()) {
+		if (!content.trim()) continue;
+		const { dir, name } = path.parse(htmlResolvedPath);
+		const virtualPath = path.resolve(dir, `${name}-module-${index}.ts`);
+		files.push({
+			file: Bun.file(virtualPath),
+			details: {
+				kind: 'chunk',
+				content,
+				inlineModule: index,
+				hash: Bun.hash(content, 1).toString(16).slice(0, 8),
+				originalPath: virtualPath,
+				htmlImporter: htmlResolvedPath,
+			},
+		});
+	}
+
 	return files;
 }
 
+function tryResolve(specifier: string, from: string) {
+	try {
+		return Bun.resolveSync(specifier, from);
+	} catch {
+		return undefined;
+	}
+}
+
 function getExtensionFiles(
 	files: Map<BunFile, FileDetails>,
 	extensions: readonly string[],
@@ -252,7 +886,8 @@ function getCSSMinifier(
 			typeof options.minifyCSS === 'object'
 				? (options.minifyCSS as CleanCssOptions)
 				: {};
-		const minifier = new CleanCSS(cssOptions);
+		// `@import` rules are followed by the plugin itself, clean-css would only find them missing
+		const minifier = new CleanCSS({ inline: false, ...cssOptions });
 
 		return (text: string) => {
 			const output = minifier.minify(text);
@@ -267,15 +902,82 @@ function getCSSMinifier(
 	return (text: string) => text;
 }
 
+/**
+ * Like `getCSSMinifier`, but carries the source map of the stylesheet through minification. A custom
+ * `minifyCSS` function can't report how it moved the styles, so its output has no source map.
+ */
+function getCSSSourceMapMinifier(
+	config: BuildConfig,
+	options: HtmlMinifyOptions,
+): (
+	text: string,
+	sourceMap: SourceMap,
+	sourcePath: string,
+) => { styles: string; sourceMap?: SourceMap } {
+	if (config.minify && options.minifyCSS !== false) {
+		if (typeof options.minifyCSS === 'function') {
+			const minifyCSS = options.minifyCSS as (text: string) => string;
+			return (text: string) => ({ styles: minifyCSS(text) });
+		}
+		const cssOptions =
+			typeof options.minifyCSS === 'object'
+				? (options.minifyCSS as CleanCssOptions)
+				: {};
+		const minifier = new CleanCSS({
+			inline: false,
+			...cssOptions,
+			sourceMap: true,
+			sourceMapInlineSources: true,
+		});
+
+		return (text: string, sourceMap: SourceMap, sourcePath: string) => {
+			const output = minifier.minify({
+				[sourcePath]: { styles: text, sourceMap: JSON.stringify(sourceMap) },
+			});
+			output.warnings.forEach(console.warn);
+			if (output.errors.length > 0) {
+				output.errors.forEach(console.error);
+				return { styles: text, sourceMap };
+			}
+			if (!output.sourceMap) return { styles: output.styles };
+			const minifiedSourceMap: SourceMap = JSON.parse(
+				output.sourceMap.toString(),
+			);
+			// clean-css makes the sources relative to the working directory
+			return {
+				styles: output.styles,
+				sourceMap: {
+					...minifiedSourceMap,
+					sources: minifiedSourceMap.sources.map((source) =>
+						path.resolve(source),
+					),
+				},
+			};
+		};
+	}
+	return (text: string, sourceMap: SourceMap) => ({ styles: text, sourceMap });
+}
+
+/**
+ * Returns how source maps are emitted for the build, `true` meaning `inline` like it does for Bun.
+ */
+function getSourceMapType(config: BuildConfig) {
+	const sourcemap = config.sourcemap as BuildConfig['sourcemap'] | boolean;
+	if (sourcemap === true) return 'inline';
+	if (!sourcemap || sourcemap === 'none') return undefined;
+	return sourcemap;
+}
+
 function getJSMinifier(
 	config: BuildConfig,
 	options: HtmlMinifyOptions,
+	inline = false,
 ): (text: string) => Promise<string> {
 	const noop = async (text: string) => text;
 	if (config.minify) {
 		return async (text: string) => {
 			if (typeof options.minifyJS === 'function') {
-				return options.minifyJS(text, false);
+				return options.minifyJS(text, inline);
 			}
 			if (typeof options.minifyJS === 'object') {
 				const result = await terser(text, options.minifyJS as MinifyOptions);
@@ -293,17 +995,11 @@ async function forJsFiles(
 	files: Map<BunFile, FileDetails>,
 	buildExtensions: readonly string[],
 	htmlOptions: HtmlMinifyOptions,
+	pinnedPath?: string,
 ) {
 	const jsFiles = getExtensionFiles(files, buildExtensions);
 	for (const item of jsFiles) files.delete(item.file);
 
-	const cssFiles = await forStyleFiles(options, build, htmlOptions, files);
-	if (cssFiles) {
-		for (const file of cssFiles) {
-			jsFiles.push(file);
-		}
-	}
-
 	if (!jsFiles) return;
 
 	const naming: BuildConfig['naming'] = {};
@@ -321,12 +1017,19 @@ async function forJsFiles(
 
 	const entrypoints = jsFiles.map((item) => item.file.name as string);
 	if (entrypoints.length === 0) return;
-	const commonPath = findLastCommonPath(entrypoints);
+	// `watch` pins the path scripts are placed relative to, so rebuilding some pages doesn't move them
+	const commonPath = findLastCommonPath(
+		pinnedPath
+			? [...entrypoints, path.join(pinnedPath, path.sep)]
+			: entrypoints,
+	);
 
 	const requiresTempDir = jsFiles.some(
 		(file) => file.details.content !== undefined,
 	);
-	const tempDirPath = await fs.mkdtemp(path.join(os.tmpdir(), 'bun-build-'));
+	const tempDirPath = requiresTempDir
+		? await fs.mkdtemp(path.join(os.tmpdir(), 'bun-build-'))
+		: '';
 
 	if (requiresTempDir) {
 		// Write files with `content` to the temporary directory
@@ -341,12 +1044,6 @@ async function forJsFiles(
 		);
 	}
 
-	const toReplacePaths: {
-		from: string;
-		path: string;
-		resolved: string;
-	}[] = [];
-
 	const customResolver = (resolverOptions: {
 		pathToResolveFrom: string;
 	}): BunPlugin => {
@@ -357,7 +1054,6 @@ async function forJsFiles(
 					try {
 						if (isURL(args.path)) return;
 						let resolved: string;
-						let external = false;
 						const tempPath = path.resolve(tempDirPath, args.path);
 						const originalPath = path.resolve(
 							args.path,
@@ -370,8 +1066,24 @@ async function forJsFiles(
 							!args.path.startsWith('../') &&
 							!args.path.startsWith('/');
 
-						if (await Bun.file(tempPath).exists()) {
+						// files written to the temporary directory import relative to their original location
+						const importerSourceDir = requiresTempDir
+							? path.resolve(
+									resolverOptions.pathToResolveFrom,
+									path.relative(tempDirPath, path.dirname(args.importer)),
+								)
+							: undefined;
+						const importerSourceResolved =
+							!isModule &&
+							importerSourceDir &&
+							args.importer.includes(tempDirPath)
+								? tryResolve(args.path, importerSourceDir)
+								: undefined;
+
+						if (requiresTempDir && (await Bun.file(tempPath).exists())) {
 							resolved = Bun.resolveSync(args.path, tempDirPath);
+						} else if (importerSourceResolved) {
+							resolved = importerSourceResolved;
 						} else if (isModule || (await Bun.file(originalPath).exists())) {
 							resolved = Bun.resolveSync(
 								args.path,
@@ -398,21 +1110,11 @@ async function forJsFiles(
 									resolved = Bun.resolveSync('.', resolved);
 								}
 							}
-
-							if (build.config.splitting) {
-								external = true;
-								toReplacePaths.push({
-									from: args.importer,
-									resolved,
-									path: args.path,
-								});
-							}
 						}
 
 						return {
 							...args,
 							path: resolved,
-							external,
 						};
 					} catch (error) {
 						if (options?.suppressErrors !== true) {
@@ -434,122 +1136,1199 @@ async function forJsFiles(
 					}
 				});
 			},
-		};
-	};
-
-	const entrypointToOutput: Map<string, string> = new Map();
-	for (const [index, entrypoint] of entrypoints.entries()) {
-		const result = await Bun.build({
-			...build.config,
-			entrypoints: [entrypoint],
-			naming,
-			outdir: undefined,
-			plugins: [
-				customResolver({
-					pathToResolveFrom: commonPath,
-				}),
-				...build.config.plugins.filter(
-					(plugin) => plugin.name !== 'bun-plugin-html',
-				),
-			],
-			root: build.config.root || commonPath,
+		};
+	};
+
+	// every script is bundled in one build, so code shared between them can be split into chunks. Without
+	// splitting, bun copies the runtime helpers any script of the build needs into every one of them
+	const root = build.config.root || commonPath;
+	const uniqueEntrypoints = [...new Set(entrypoints)];
+	const result = await Bun.build({
+		...build.config,
+		entrypoints: uniqueEntrypoints,
+		naming,
+		outdir: undefined,
+		plugins: [
+			customResolver({
+				pathToResolveFrom: commonPath,
+			}),
+			...build.config.plugins.filter(
+				(plugin) => plugin.name !== 'bun-plugin-html',
+			),
+		],
+		root,
+	});
+
+	if (!result.success && options?.suppressErrors !== true) {
+		console.error(result.logs);
+	}
+
+	// bun writes the sources relative to the working directory, those in the temporary directory stand
+	// for the files next to the html
+	const resolveSource = (source: string) => {
+		const sourcePath = path
+			.resolve(source)
+			.replace(`/private${tempDirPath}`, tempDirPath);
+		if (!requiresTempDir || !sourcePath.startsWith(tempDirPath))
+			return sourcePath;
+		return path.join(commonPath, path.relative(tempDirPath, sourcePath));
+	};
+	const outputs = await Promise.all(
+		result.outputs.map(async (output) => {
+			let text = await output.text();
+			// the comments naming the bundled modules point at their sources instead, so the text of a build
+			// doesn't depend on its temporary directory
+			if (requiresTempDir && !/\.map$/.test(output.path))
+				text = text.replace(/^\/\/ (.+)$/gm, (comment, source: string) => {
+					const sourcePath = resolveSource(source);
+					return sourcePath === path.resolve(source)
+						? comment
+						: `// ${path.relative(process.cwd(), sourcePath)}`;
+				});
+			let filePath = path.resolve(`${commonPath}/${output.path}`);
+			if (requiresTempDir && filePath.includes(tempDirPath)) {
+				filePath = filePath.replace(`/private${tempDirPath}`, commonPath);
+				filePath = filePath.replace(tempDirPath, commonPath);
+			}
+			return {
+				output,
+				text,
+				filePath,
+				hash: output.hash || Bun.hash(text, 1).toString(16).slice(0, 8),
+				sourceMap: undefined as SourceMap | undefined,
+			};
+		}),
+	);
+	const outputImports = getOutputImports(outputs);
+
+	// source maps are attached to the outputs they map and written again once those are named
+	const linkedSourceMaps: Map<string, SourceMap> = new Map();
+	for (const { output, text, filePath } of outputs) {
+		if (output.kind === 'sourcemap')
+			linkedSourceMaps.set(filePath.replace(/\.map$/, ''), JSON.parse(text));
+	}
+	for (const item of outputs) {
+		if (item.output.kind === 'sourcemap') continue;
+		const { content, url } = removeSourceMapComment(item.text);
+		const sourceMap =
+			linkedSourceMaps.get(item.filePath) ??
+			(url ? dataURLToSourceMap(url) : undefined);
+		if (!sourceMap) continue;
+		item.text = content;
+		item.sourceMap = {
+			...sourceMap,
+			sources: sourceMap.sources.map(resolveSource),
+		};
+	}
+	// scripts are named after their content and the scripts they import instead of the hashes bun gives
+	// them, which change with the temporary directory files with `content` are bundled from
+	const outputsByPath = new Map(outputs.map((item) => [item.filePath, item]));
+	const scriptHashes: Map<string, string> = new Map();
+	const getScriptHash = (
+		item: (typeof outputs)[number],
+		visiting: Set<string>,
+	): string => {
+		const known = scriptHashes.get(item.filePath);
+		if (known) return known;
+		const imports = outputImports.get(item.filePath) ?? [];
+		// the specifiers hold the names bun gave the imported scripts
+		let text = item.text;
+		for (const { specifier } of imports) text = text.replaceAll(specifier, '');
+		const hashes = [Bun.hash(text, 1).toString(16).slice(0, 8)];
+		if (visiting.has(item.filePath)) return hashes[0];
+		visiting.add(item.filePath);
+
+		for (const { path: importPath } of imports) {
+			const imported = outputsByPath.get(importPath);
+			if (imported) hashes.push(getScriptHash(imported, visiting));
+		}
+		const hash =
+			hashes.length > 1
+				? Bun.hash(hashes.join(''), 1).toString(16).slice(0, 8)
+				: hashes[0];
+		scriptHashes.set(item.filePath, hash);
+		return hash;
+	};
+	const scriptPaths: Map<string, string> = new Map();
+	for (const item of outputs) {
+		if (!/\.[cm]?js$/.test(item.filePath)) continue;
+		const hash = getScriptHash(item, new Set());
+		const { dir, base } = path.parse(item.filePath);
+		if (item.output.hash && base.includes(item.output.hash))
+			scriptPaths.set(
+				item.filePath,
+				path.join(dir, base.replace(item.output.hash, hash)),
+			);
+		item.hash = hash;
+	}
+	for (const item of outputs)
+		item.filePath = scriptPaths.get(item.filePath) ?? item.filePath;
+	for (const [filePath, imports] of [...outputImports]) {
+		outputImports.delete(filePath);
+		outputImports.set(
+			scriptPaths.get(filePath) ?? filePath,
+			imports.map((item) => ({
+				...item,
+				path: scriptPaths.get(item.path) ?? item.path,
+			})),
+		);
+	}
+
+	// outputs aren't in the order of their entrypoints, so they are matched by their path instead
+	const entryOutputs = outputs.filter(
+		({ output }) => output.kind === 'entry-point',
+	);
+	const outputsByEntrypoint = new Map(
+		uniqueEntrypoints.map((entrypoint) => {
+			const matcher = getOutputPathMatcher(
+				naming.entry ?? '[dir]/[name].[ext]',
+				entrypoint,
+				root,
+			);
+			const index = entryOutputs.findIndex(({ output }) =>
+				matcher.test(path.normalize(output.path)),
+			);
+			if (index === -1) {
+				// a failed build has already reported why
+				if (result.success && options?.suppressErrors !== true)
+					console.error(
+						`bun-plugin-html - Could not find the output of the script '${entrypoint}'`,
+					);
+				return [entrypoint, undefined];
+			}
+			// entrypoints with the same output name take their outputs in order
+			const [entryOutput] = entryOutputs.splice(index, 1);
+			return [entrypoint, entryOutput];
+		}),
+	);
+
+	const itemOutputs = jsFiles.map((item, index) =>
+		outputsByEntrypoint.get(entrypoints[index]),
+	);
+	for (const [index, item] of jsFiles.entries()) {
+		const entryOutput = itemOutputs[index];
+		if (!entryOutput || !item.file.name) continue;
+		files.set(Bun.file(entryOutput.filePath), {
+			content: entryOutput.text,
+			attributes: item.details.attributes,
+			attribute: item.details.attribute,
+			inlineModule: item.details.inlineModule,
+			imports: outputImports.get(entryOutput.filePath),
+			sourceMap: entryOutput.sourceMap,
+			kind: item.details.kind,
+			hash: entryOutput.hash,
+			originalPath: item.details.originalPath,
+			htmlImporter: item.details.htmlImporter,
+		});
+	}
+
+	// a chunk belongs to every page whose scripts import it, directly or through other chunks
+	const chunkImporters: Map<string, string[]> = new Map();
+	const addImporter = (filePath: string, htmlImporter: string) => {
+		for (const { path: importPath } of outputImports.get(filePath) ?? []) {
+			const importers = chunkImporters.get(importPath) ?? [];
+			if (importers.includes(htmlImporter)) continue;
+			chunkImporters.set(importPath, [...importers, htmlImporter]);
+			addImporter(importPath, htmlImporter);
+		}
+	};
+	for (const [index, item] of jsFiles.entries()) {
+		const entryOutput = itemOutputs[index];
+		if (entryOutput)
+			addImporter(entryOutput.filePath, item.details.htmlImporter);
+	}
+
+	for (const { output, text, filePath, hash, sourceMap } of outputs) {
+		if (output.kind === 'entry-point' || output.kind === 'sourcemap') continue;
+		const htmlImporters = chunkImporters.get(filePath) ?? [
+			jsFiles[0].details.htmlImporter,
+		];
+		files.set(Bun.file(filePath), {
+			content: text,
+			imports: outputImports.get(filePath),
+			sourceMap,
+			kind: output.kind,
+			hash,
+			originalPath: false,
+			htmlImporter: htmlImporters[0],
+			htmlImporters,
+		});
+	}
+
+	if (requiresTempDir)
+		await fs.rm(tempDirPath, { recursive: true, force: true });
+}
+
+/**
+ * Finds the outputs every script output imports, from `import`, `export from`, `import()` and
+ * `require()` alike, keyed by the output path each is written to.
+ */
+function getOutputImports(
+	outputs: { output: BuildArtifact; text: string; filePath: string }[],
+) {
+	const byPath = new Map(
+		outputs.map((item) => [path.normalize(item.output.path), item]),
+	);
+	const byName = new Map(
+		outputs.map((item) => [path.basename(item.output.path), item]),
+	);
+	const transpiler = new Bun.Transpiler({ loader: 'js' });
+	const imports: Map<string, OutputImport[]> = new Map();
+
+	for (const { output, text, filePath } of outputs) {
+		if (!/\.[cm]?js$/.test(output.path)) continue;
+		const outputImports: OutputImport[] = [];
+		for (const { path: specifier } of transpiler.scanImports(text)) {
+			if (!specifier.startsWith('./') && !specifier.startsWith('../')) continue;
+			// bun doesn't always make the specifiers of dynamic imports relative to the importing output,
+			// but every output name includes its hash, so it can be found by its name instead
+			const target =
+				byPath.get(
+					path.normalize(path.join(path.dirname(output.path), specifier)),
+				) ?? byName.get(path.basename(specifier));
+			if (target) outputImports.push({ specifier, path: target.filePath });
+		}
+		imports.set(filePath, outputImports);
+	}
+
+	return imports;
+}
+
+function rewriteOutputImports(
+	options: BunPluginHTMLOptions | undefined,
+	content: string,
+	outputPath: string,
+	imports: OutputImport[],
+	finalPaths: Map<string, string>,
+) {
+	const replacements: Map<string, string> = new Map();
+	for (const { specifier, path: importPath } of imports) {
+		const finalPath = finalPaths.get(importPath);
+		if (!finalPath || keepsOriginalPath(options, specifier)) continue;
+		const relativePath = path.relative(path.dirname(outputPath), finalPath);
+		replacements.set(
+			specifier,
+			relativePath.startsWith('.') ? relativePath : `./${relativePath}`,
+		);
+	}
+	if (replacements.size === 0) return content;
+
+	const specifiers = [...replacements.keys()].map((specifier) =>
+		specifier.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+	);
+	// specifiers are only replaced as whole string literals
+	return content.replace(
+		new RegExp(`(["'\`])(${specifiers.join('|')})\\1`, 'g'),
+		(match, quote: string, specifier: string) =>
+			`${quote}${replacements.get(specifier)}${quote}`,
+	);
+}
+
+/**
+ * Compiles every linked stylesheet with its style transformer, minifies it with `minifyCSS` and hashes the
+ * result, which is what gets written once its references are pointed to their outputs.
+ */
+async function forStyleFiles(
+	options: BunPluginHTMLOptions | undefined,
+	build: PluginBuilder,
+	files: Map<BunFile, FileDetails>,
+	htmlOptions: HtmlMinifyOptions,
+	placeholders: Map<string, string> | undefined,
+) {
+	const extensions = getStyleExtensions(options);
+	const transformers = getStyleTransformers(options);
+	const sourceMapType = getSourceMapType(build.config);
+	const cssMinifier = getCSSMinifier(build.config, htmlOptions);
+	const cssSourceMapMinifier = getCSSSourceMapMinifier(
+		build.config,
+		htmlOptions,
+	);
+	const cssFiles = getExtensionFiles(files, extensions);
+	const found = new Set(
+		[...files.values()].map((details) => details.originalPath),
+	);
+	// the files found through stylesheets, and the files they reference in turn, which take every page
+	// importing a stylesheet shared by several pages
+	const styleAssets: Map<string, BunFile> = new Map();
+	const styleReferences: Map<string, string[]> = new Map();
+	const addImporters = (resolvedPath: string, htmlImporters: string[]) => {
+		const file = styleAssets.get(resolvedPath);
+		const details = file && files.get(file);
+		if (!details) return;
+		const current = details.htmlImporters ?? [details.htmlImporter];
+		const added = htmlImporters.filter(
+			(htmlImporter) => !current.includes(htmlImporter),
+		);
+		if (added.length === 0) return;
+		details.htmlImporters = [...current, ...added];
+		for (const reference of styleReferences.get(resolvedPath) ?? [])
+			addImporters(reference, added);
+	};
+	// an inlined stylesheet can't `@import` files relative to itself anymore, Bun's css bundler inlines them,
+	// whether or not `experimentalCss` is set
+	const bundlesImports =
+		options?.inline === true ||
+		(typeof options?.inline === 'object' && options.inline.css === true);
+
+	for (const item of cssFiles) {
+		const file = item.file;
+		const originalPath = item.details.originalPath || (file.name as string);
+		let source =
+			(await contentToString(item.details.content)) || (await file.text());
+		if (placeholders)
+			source = replacePlaceholders(source, placeholders, originalPath, false);
+		const transformer =
+			transformers[path.parse(originalPath).ext.toLowerCase()];
+		const result = transformer
+			? await transformer(source, originalPath, {
+					sourceMap: sourceMapType !== undefined,
+				})
+			: bundlesImports && item.details.attributes && /@import\b/.test(source)
+				? await bundleStyleImports(source, originalPath, placeholders)
+				: undefined;
+		const css = result?.css ?? source;
+		const { styles: content, sourceMap } = sourceMapType
+			? cssSourceMapMinifier(
+					css,
+					result?.sourceMap ?? getLineSourceMap(css, originalPath, source),
+					originalPath,
+				)
+			: { styles: cssMinifier(css), sourceMap: undefined };
+
+		files.set(file, {
+			...item.details,
+			content,
+			dependencies: result?.dependencies,
+			sourceMap,
+			hash: Bun.hash(content, 1).toString(16).slice(0, 8),
+		});
+
+		const htmlImporters = item.details.htmlImporters ?? [
+			item.details.htmlImporter,
+		];
+		const references: string[] = [];
+		styleReferences.set(originalPath, references);
+
+		// follow `url()` and `@import` references, which are relative to the stylesheet
+		for (const reference of getStyleReferences(content)) {
+			if (isURL(reference)) continue;
+			const suffix = getPathSuffix(reference);
+			const resolvedPath = path.resolve(
+				path.dirname(originalPath),
+				reference.substring(0, reference.length - suffix.length),
+			);
+			const extension = path.parse(resolvedPath).ext;
+			if (options?.excludeExtensions?.includes(extension)) continue;
+			references.push(resolvedPath);
+			if (found.has(resolvedPath)) {
+				addImporters(resolvedPath, htmlImporters);
+				continue;
+			}
+			found.add(resolvedPath);
+
+			const referencedFile = Bun.file(resolvedPath);
+			if (!(await referencedFile.exists())) {
+				if (options?.suppressErrors !== true) {
+					console.error(
+						`bun-plugin-html - CSSParseError: Specified url '${reference}' in '${originalPath}' does not exist!`,
+					);
+				}
+				continue;
+			}
+
+			const details: FileDetails = {
+				kind: 'asset',
+				hash: Bun.hash(await referencedFile.arrayBuffer(), 1)
+					.toString(16)
+					.slice(0, 8),
+				originalPath: resolvedPath,
+				htmlImporter: htmlImporters[0],
+				htmlImporters,
+			};
+			files.set(referencedFile, details);
+			styleAssets.set(resolvedPath, referencedFile);
+
+			// imported stylesheets are followed as well
+			if (extensions.includes(extension))
+				cssFiles.push({ file: referencedFile, details });
+		}
+	}
+}
+
+/**
+ * Bundles a plain stylesheet with the files it `@import`s using Bun's css bundler. Its other references are
+ * left for the plugin to follow, relative to the stylesheet like before.
+ */
+async function bundleStyleImports(
+	content: string,
+	filePath: string,
+	placeholders: Map<string, string> | undefined,
+): Promise<StyleTransformResult> {
+	const resolved: Set<string> = new Set();
+	const dependencies: string[] = [];
+	const result = await Bun.build({
+		entrypoints: [filePath],
+		experimentalCss: true,
+		plugins: [
+			{
+				name: 'bun-plugin-html-style-imports',
+				setup(build) {
+					build.onResolve({ filter: /.*/ }, (args) => {
+						if (args.kind === 'import-rule' || args.kind === 'entry-point')
+							return;
+						return { path: args.path, external: true };
+					});
+					// references are made absolute before the imported files are moved into the stylesheet
+					build.onLoad({ filter: /.*/ }, async (args) => {
+						let source = content;
+						if (args.path !== filePath) {
+							dependencies.push(args.path);
+							source = await Bun.file(args.path).text();
+							if (placeholders)
+								source = replacePlaceholders(
+									source,
+									placeholders,
+									args.path,
+									false,
+								);
+						}
+						return {
+							contents: replaceStyleReferences(source, (reference) => {
+								if (isURL(reference) || path.isAbsolute(reference)) return;
+								const resolvedPath = path.resolve(
+									path.dirname(args.path),
+									reference,
+								);
+								resolved.add(resolvedPath);
+								return resolvedPath;
+							}),
+							loader: 'css',
+						};
+					});
+				},
+			},
+		],
+	});
+	if (!result.success)
+		throw new AggregateError(
+			result.logs,
+			`bun-plugin-html - Could not bundle the imports of '${filePath}'`,
+		);
+
+	return {
+		css: replaceStyleReferences(await result.outputs[0].text(), (reference) =>
+			resolved.has(reference)
+				? path.relative(path.dirname(filePath), reference)
+				: undefined,
+		),
+		dependencies,
+	};
+}
+
+function getStyleExtensions(options: BunPluginHTMLOptions | undefined) {
+	return [
+		...new Set([
+			...styleExtensions,
+			...Object.keys(options?.styleTransformers ?? {}),
+		]),
+	];
+}
+
+/**
+ * Returns the style transformers by extension, sass compiling `.scss` and `.sass` files unless they
+ * are given other transformers.
+ */
+function getStyleTransformers(options: BunPluginHTMLOptions | undefined): {
+	[extension: string]: StyleTransformer;
+} {
+	const sassTransformer: StyleTransformer = (content, filePath, context) => {
+		const result = compileSass(options, content, filePath, {
+			syntax: /\.sass$/i.test(filePath) ? 'indented' : 'scss',
+			sourceMap: context.sourceMap,
+			sourceMapIncludeSources: true,
+		});
+		return {
+			css: result.css,
+			dependencies: getSassDependencies(result),
+			sourceMap: result.sourceMap && {
+				...result.sourceMap,
+				version: 3,
+				sources: result.sourceMap.sources.map((source) =>
+					source.startsWith('file:') ? fileURLToPath(source) : source,
+				),
+			},
+		};
+	};
+
+	return {
+		'.scss': sassTransformer,
+		'.sass': sassTransformer,
+		...options?.styleTransformers,
+	};
+}
+
+/**
+ * Transforms stylesheets with the plugins and options of the PostCSS config file found from their
+ * directory, or from `config.path`. `postcss` and `postcss-load-config` have to be installed.
+ */
+export function postcss(config?: { path?: string }): StyleTransformer {
+	return async (content, filePath, context) => {
+		const [{ default: createProcessor }, { default: loadConfig }] =
+			await Promise.all([import('postcss'), import('postcss-load-config')]);
+		const { file, options, plugins } = await loadConfig(
+			{},
+			config?.path ?? path.dirname(filePath),
+		);
+		const result = await createProcessor(plugins).process(content, {
+			...options,
+			from: filePath,
+			to: filePath,
+			map: context.sourceMap
+				? { inline: false, annotation: false, sourcesContent: true }
+				: false,
+		});
+		const map = result.map?.toJSON();
+		const sourceMap: SourceMap | undefined = map && { ...map, version: 3 };
+
+		return {
+			css: result.css,
+			// sources are relative to the stylesheet
+			sourceMap: sourceMap && {
+				...sourceMap,
+				sources: sourceMap.sources.map((source) =>
+					path.resolve(
+						path.dirname(filePath),
+						source.startsWith('file:') ? fileURLToPath(source) : source,
+					),
+				),
+			},
+			dependencies: [
+				file,
+				...result.messages
+					.filter((message) => message.type === 'dependency')
+					.map((message) => message.file as string),
+			],
+		};
+	};
+}
+
+/**
+ * Compiles sass `content` as if it was read from `filePath`, so `@use` and `@import` resolve relative to
+ * it before the `loadPaths` of the `sassOptions` and the `node_modules` directories above it.
+ */
+function compileSass(
+	options: BunPluginHTMLOptions | undefined,
+	content: string,
+	filePath: string,
+	sassOptions: sass.StringOptions<'sync'> = {},
+) {
+	// the syntax and source map options the plugin relies on always win over the user's
+	return sass.compileString(content, {
+		...options?.sassOptions,
+		...sassOptions,
+		url: new URL(pathToFileURL(filePath).href),
+		loadPaths: [
+			...(options?.sassOptions?.loadPaths ?? []),
+			...getNodeModulesPaths(path.dirname(filePath)),
+		],
+	});
+}
+
+/**
+ * Returns the files a sass stylesheet was compiled from, itself included.
+ */
+function getSassDependencies(result: sass.CompileResult) {
+	return result.loadedUrls
+		.filter((url) => url.protocol === 'file:')
+		.map((url) => fileURLToPath(url));
+}
+
+/**
+ * Maps every html file to the source files its outputs are built from: the html file itself, the files
+ * it references, their sass partials and the modules its scripts import.
+ */
+async function getDependencies(files: Map<BunFile, FileDetails>) {
+	const dependencies: Map<string, Set<string>> = new Map();
+
+	for (const [file, details] of files) {
+		let htmlDependencies = dependencies.get(details.htmlImporter);
+		if (!htmlDependencies) {
+			htmlDependencies = new Set([details.htmlImporter]);
+			dependencies.set(details.htmlImporter, htmlDependencies);
+		}
+
+		if (details.originalPath && details.inlineModule === undefined)
+			htmlDependencies.add(details.originalPath);
+		for (const dependency of details.dependencies ?? [])
+			htmlDependencies.add(dependency);
+
+		const filePath = details.originalPath || file.name;
+		if (!filePath) continue;
+		await getImportedFiles(
+			filePath,
+			typeof details.content === 'string' ? details.content : undefined,
+			htmlDependencies,
+		);
+	}
+
+	return dependencies;
+}
+
+/** Whether `reference` is left as written, as asked for by the `keepOriginalPaths` option. */
+function keepsOriginalPath(
+	options: BunPluginHTMLOptions | undefined,
+	reference: string,
+) {
+	const keepOriginalPaths = options?.keepOriginalPaths;
+	if (keepOriginalPaths === true) return true;
+	if (!Array.isArray(keepOriginalPaths)) return false;
+
+	const pathString = reference.substring(
+		0,
+		reference.length - getPathSuffix(reference).length,
+	);
+	return keepOriginalPaths.some((s) => pathString.endsWith(s));
+}
+
+function rewriteStyleReferences(
+	options: BunPluginHTMLOptions | undefined,
+	content: string,
+	sourcePath: string,
+	outputDir: string,
+	outputPaths: Map<string, string>,
+	dataURIs: Map<string, string>,
+) {
+	if (options?.keepOriginalPaths === true) return content;
+
+	return replaceStyleReferences(content, (reference) => {
+		if (isURL(reference) || keepsOriginalPath(options, reference)) return;
+		const suffix = getPathSuffix(reference);
+		const pathString = reference.substring(0, reference.length - suffix.length);
+		const resolvedPath = path.resolve(path.dirname(sourcePath), pathString);
+		const dataURI = dataURIs.get(resolvedPath);
+		if (dataURI) return dataURI;
+		const outputPath = outputPaths.get(resolvedPath);
+		if (!outputPath) return;
+		return `${path.relative(outputDir, outputPath)}${suffix}`;
+	});
+}
+
+function mapIntoKeys(files: Map<BunFile, FileDetails>) {
+	const keys = [];
+	for (const key of files.keys()) {
+		keys.push(key.name as string);
+	}
+
+	return keys;
+}
+
+const inlineStyleSyntaxes: { [selector: string]: sass.Syntax } = {
+	'style[lang="scss"]': 'scss',
+	'style[type="text/scss"]': 'scss',
+	'style[lang="sass"]': 'indented',
+	'style[type="text/sass"]': 'indented',
+};
+const inlineScriptCompilers: {
+	[selector: string]: (content: string) => string;
+} = {
+	'script[lang="ts"]': (content) =>
+		new Bun.Transpiler({ loader: 'ts' }).transformSync(content),
+	'script[lang="tsx"]': (content) =>
+		new Bun.Transpiler({ loader: 'tsx' }).transformSync(content),
+	'script[type="text/typescript"]': (content) =>
+		new Bun.Transpiler({ loader: 'ts' }).transformSync(content),
+};
+
+/**
+ * Compiles inline `<style lang="scss">` and `<script lang="ts">` blocks, and minifies them the same
+ * way as linked files. Inline module scripts are bundled instead, see `inlineModuleSelector`.
+ */
+function compileInlineBlocks(
+	rewriter: HTMLRewriter,
+	options: BunPluginHTMLOptions | undefined,
+	build: PluginBuilder,
+	htmlOptions: HtmlMinifyOptions,
+	excluded: readonly string[],
+	htmlPath: string,
+	dependencies: Set<string>,
+) {
+	const cssMinifier = getCSSMinifier(build.config, htmlOptions);
+	const jsMinifier = getJSMinifier(build.config, htmlOptions, true);
+	const excludedSelector = getExcludedSelector(excluded);
+
+	const onBlock = (
+		selector: string,
+		compile: (content: string) => Promise<string>,
+	) => {
+		let content = '';
+		rewriter.on(selector, {
+			element(el) {
+				content = '';
+				el.removeAttribute('lang');
+				el.removeAttribute('type');
+			},
+			async text(text) {
+				content += text.text;
+				if (!text.lastInTextNode) {
+					text.remove();
+					return;
+				}
+				text.replace(await compile(content), { html: true });
+			},
+		});
+	};
+
+	for (const [selector, syntax] of Object.entries(inlineStyleSyntaxes)) {
+		onBlock(`${selector}${excludedSelector}`, async (content) => {
+			// inline blocks are compiled from the location of their html file
+			const result = compileSass(
+				options,
+				syntax === 'indented' ? dedent(content) : content,
+				htmlPath,
+				{ syntax },
+			);
+			for (const dependency of getSassDependencies(result))
+				dependencies.add(dependency);
+			return cssMinifier(result.css).replaceAll(/(<)(\/style>)/g, '\\3C$2');
+		});
+	}
+
+	for (const [selector, compiler] of Object.entries(inlineScriptCompilers)) {
+		onBlock(
+			`${selector}:not([src]):not([type="module"])${excludedSelector}`,
+			async (content) =>
+				(await jsMinifier(compiler(content))).replaceAll(
+					/(<)(\/script>)/g,
+					'\\x3C$2',
+				),
+		);
+	}
+}
+
+function createManifest(
+	files: [BunFile, FileDetails][],
+	commonPath: string,
+	outdir: string | undefined,
+	policies: Map<string, string>,
+) {
+	const manifest: Manifest = {};
+	const toSource = (filePath: string) => path.relative(commonPath, filePath);
+	const toOutput = (filePath: string) => path.relative(outdir || '.', filePath);
+
+	for (const [file, details] of files) {
+		if (!file.name) continue;
+		const output = toOutput(file.name);
+		const key = details.originalPath
+			? toSource(details.originalPath)
+			: `_${path.basename(output)}`;
+
+		manifest[key] = {
+			file: output,
+			src: details.originalPath ? key : undefined,
+			isEntry: details.kind === 'entry-point' || undefined,
+			htmlImporter:
+				details.kind === 'entry-point' || !details.htmlImporter
+					? undefined
+					: toSource(details.htmlImporter),
+		};
+	}
+
+	for (const [file, details] of files) {
+		if (details.kind !== 'entry-point' || !details.originalPath) continue;
+		const js: Set<string> = new Set();
+		const css: Set<string> = new Set();
+		const imports: Set<string> = new Set();
+		const assets: Set<string> = new Set();
+
+		for (const [dependency, dependencyDetails] of files) {
+			if (
+				!dependency.name ||
+				dependency === file ||
+				!isImportedBy(dependencyDetails, details.htmlImporter)
+			)
+				continue;
+			const output = toOutput(dependency.name);
+			const extension = path.parse(output).ext;
+
+			if (extension === '.css') css.add(output);
+			else if (extension !== '.js') assets.add(output);
+			else if (dependencyDetails.originalPath) js.add(output);
+			else imports.add(output);
+		}
+
+		Object.assign(manifest[toSource(details.originalPath)], {
+			js: [...js],
+			css: [...css],
+			imports: [...imports],
+			assets: [...assets],
+			csp: policies.get(file.name as string),
+		});
+	}
+
+	return manifest;
+}
+
+const cspDirectives = { script: 'script-src', style: 'style-src' } as const;
+// browsers match the value of `http-equiv` case-insensitively
+const cspMetaSelector = 'meta[http-equiv="Content-Security-Policy" i]';
+
+/**
+ * Returns the sources of the scripts and stylesheets `content` loads from other origins, by the
+ * directive allowing them.
+ */
+function getExternalSources(content: string) {
+	const sources: { [directive: string]: Set<string> } = {
+		[cspDirectives.script]: new Set(),
+		[cspDirectives.style]: new Set(),
+	};
+	const addSource = (directive: string, reference: string | null) => {
+		if (!reference || !/^(https?:)?\/\//i.test(reference)) return;
+		const url = new URL(reference, 'https://localhost');
+		// protocol relative urls are loaded with the scheme of the page
+		sources[directive].add(reference.startsWith('//') ? url.host : url.origin);
+	};
+
+	new HTMLRewriter()
+		.on('script[src]', {
+			element(el) {
+				addSource(cspDirectives.script, el.getAttribute('src'));
+			},
+		})
+		.on('link[rel="stylesheet" i][href]', {
+			element(el) {
+				addSource(cspDirectives.style, el.getAttribute('href'));
+			},
+		})
+		.transform(content);
+
+	return sources;
+}
+
+/**
+ * Allows `source` through `directive`, which is created from `default-src` when missing. Without
+ * `default-src`, the directive allows the page's own origin and the `external` sources the page loads.
+ */
+function addPolicySource(
+	directives: ContentSecurityPolicy,
+	directive: string,
+	source: string,
+	external: Iterable<string> = [],
+) {
+	// a new directive replaces `default-src` for its kind, so it has to keep allowing the same files
+	directives[directive] ??= (
+		directives['default-src'] ?? ["'self'", ...external]
+	).filter((source) => source !== "'none'");
+	if (!directives[directive].includes(source))
+		directives[directive].push(source);
+}
+
+/**
+ * Hashes the inline `<script>` and `<style>` blocks of `content` into the Content-Security-Policy of its
+ * `<meta http-equiv="Content-Security-Policy">`, which is injected into `<head>` when missing and `meta` is set.
+ * Pages without a `<head>` get one, as browsers ignore the policy anywhere else.
+ */
+async function addContentSecurityPolicy(content: string, meta: boolean) {
+	const blocks: { tag: keyof typeof cspDirectives; text: string }[] = [];
+	let existing: string | null = null;
+	let hasHead = false;
+
+	new HTMLRewriter()
+		.on(cspMetaSelector, {
+			element(el) {
+				existing ??= el.getAttribute('content');
+			},
+		})
+		.on('head', {
+			element() {
+				hasHead = true;
+			},
+		})
+		.on('script:not([src]), style', {
+			element(el) {
+				blocks.push({
+					tag: el.tagName as keyof typeof cspDirectives,
+					text: '',
+				});
+			},
+			text(text) {
+				(blocks.at(-1) as (typeof blocks)[number]).text += text.text;
+			},
+		})
+		.transform(content);
+
+	if (!blocks.length && existing === null) return { content, policy: '' };
+
+	const directives = parseContentSecurityPolicy(existing ?? '');
+	const external = getExternalSources(content);
+	for (const { tag, text } of blocks)
+		addPolicySource(
+			directives,
+			cspDirectives[tag],
+			`'${await getIntegrity(new Blob([text]), 'sha256')}'`,
+			external[cspDirectives[tag]],
+		);
+	const policy = stringifyContentSecurityPolicy(directives);
+	if (!meta) return { content, policy };
+
+	const metaTag = `<meta http-equiv="Content-Security-Policy" content="${policy.replaceAll('&', '&amp;').replaceAll('"', '&quot;')}">`;
+	let updated = false;
+	let injected = existing !== null;
+	const rewriter = new HTMLRewriter()
+		.on(cspMetaSelector, {
+			element(el) {
+				if (updated) return;
+				el.setAttribute('content', policy);
+				updated = true;
+			},
+		})
+		.on(hasHead ? 'head' : '*', {
+			element(el) {
+				if (injected) return;
+				injected = true;
+				if (el.tagName === 'head') el.prepend(metaTag, { html: true });
+				else if (el.tagName === 'html')
+					el.prepend(`<head>${metaTag}</head>`, { html: true });
+				else el.before(`<head>${metaTag}</head>`, { html: true });
+			},
 		});
+	const transformed = rewriter.transform(content);
+	return {
+		content: injected ? transformed : `<head>${metaTag}</head>${transformed}`,
+		policy,
+	};
+}
 
-		if (!result.success && options?.suppressErrors !== true) {
-			console.error(result.logs);
+/**
+ * Points the `attributes` of `el` that reference a file to `url`, keeping the query and hash of the
+ * references unless `keepSuffix` is false. References kept by `keepOriginalPaths` are left alone.
+ */
+function setReferenceAttributes(
+	options: BunPluginHTMLOptions | undefined,
+	el: HTMLRewriterTypes.Element,
+	attributes: FileAttribute[],
+	url: string,
+	keepSuffix = true,
+) {
+	const withSuffix = (reference: string) =>
+		keepSuffix ? `${url}${getPathSuffix(reference)}` : url;
+
+	for (const attribute of attributes) {
+		const value = el.getAttribute(attribute.name);
+		if (value === null) continue;
+
+		if (attribute.candidate !== undefined) {
+			if (keepsOriginalPath(options, attribute.candidate)) continue;
+			const candidates = parseSrcset(value);
+			for (const candidate of candidates) {
+				if (candidate.url === attribute.candidate)
+					candidate.url = withSuffix(candidate.url);
+			}
+			el.setAttribute(attribute.name, stringifySrcset(candidates));
+			continue;
 		}
 
-		for (const output of result.outputs) {
-			const outputText = await output.text();
-			let filePath = path.resolve(`${commonPath}/${output.path}`);
-			if (filePath.includes(tempDirPath)) {
-				filePath = filePath.replace(`/private${tempDirPath}`, commonPath);
-				filePath = filePath.replace(tempDirPath, commonPath);
-			}
+		if (keepsOriginalPath(options, value)) continue;
+		el.setAttribute(attribute.name, withSuffix(value));
+	}
+}
 
-			if (output.kind === 'entry-point' || output.loader === 'css') {
-				if (!jsFiles[index].file.name) continue;
-				entrypointToOutput.set(jsFiles[index].file.name, filePath);
-				files.set(Bun.file(filePath), {
-					content: outputText,
-					attribute: jsFiles[index].details.attribute,
-					kind: jsFiles[index].details.kind,
-					hash: output.hash || Bun.hash(outputText, 1).toString(16).slice(0, 8),
-					originalPath: jsFiles[index].details.originalPath,
-					htmlImporter: jsFiles[index].details.htmlImporter,
-				});
-			} else {
-				files.set(Bun.file(filePath), {
-					content: outputText,
-					kind: output.kind,
-					hash: output.hash || Bun.hash(outputText, 1).toString(16).slice(0, 8),
-					originalPath: false,
-					htmlImporter: jsFiles[index].details.htmlImporter,
-				});
-			}
+async function getContentHash(content: NonNullable<FileDetails['content']>) {
+	if (typeof content === 'string')
+		return Bun.hash(content, 1).toString(16).slice(0, 8);
+	const blob = new Blob(
+		(Array.isArray(content) ? content : [content]) as BlobPart[],
+	);
+	return Bun.hash(await blob.arrayBuffer(), 1)
+		.toString(16)
+		.slice(0, 8);
+}
+
+/**
+ * Makes the hash naming every file come from its own content. Stylesheets and html files, whose
+ * references are rewritten to the names of other files, include the hashes of those files as well, so
+ * they are renamed whenever a file they reference is. Scripts are already hashed by `forJsFiles`.
+ */
+async function setContentHashes(
+	options: BunPluginHTMLOptions | undefined,
+	files: Map<BunFile, FileDetails>,
+	buildExtensions: readonly string[],
+) {
+	const styleExtensions = getStyleExtensions(options);
+	const byPath: Map<string, FileDetails> = new Map();
+
+	for (const details of files.values()) {
+		if (!details.originalPath) continue;
+		byPath.set(details.originalPath, details);
+		// files read from disk were hashed when they were found
+		if (
+			details.content === undefined ||
+			buildExtensions.includes(path.parse(details.originalPath).ext)
+		)
+			continue;
+		details.hash = await getContentHash(details.content);
+	}
+
+	const styleHashes: Map<string, string> = new Map();
+	const getStyleHash = async (
+		stylePath: string,
+		details: FileDetails,
+		visiting: Set<string>,
+	): Promise<string> => {
+		const known = styleHashes.get(stylePath);
+		if (known) return known;
+		// stylesheets importing each other are only hashed by their own content
+		if (visiting.has(stylePath)) return details.hash;
+		visiting.add(stylePath);
+
+		const hashes = [details.hash];
+		for (const reference of getStyleReferences(
+			await contentToString(details.content),
+		)) {
+			if (isURL(reference)) continue;
+			const suffix = getPathSuffix(reference);
+			const referencePath = path.resolve(
+				path.dirname(stylePath),
+				reference.substring(0, reference.length - suffix.length),
+			);
+			const referenced = byPath.get(referencePath);
+			if (!referenced) continue;
+			hashes.push(
+				styleExtensions.includes(path.parse(referencePath).ext)
+					? await getStyleHash(referencePath, referenced, visiting)
+					: referenced.hash,
+			);
 		}
+
+		const hash =
+			hashes.length > 1
+				? Bun.hash(hashes.join(''), 1).toString(16).slice(0, 8)
+				: details.hash;
+		styleHashes.set(stylePath, hash);
+		return hash;
+	};
+
+	// a stylesheet linked from several pages is found once for each of them
+	for (const details of files.values()) {
+		const stylePath = details.originalPath;
+		if (!stylePath || !styleExtensions.includes(path.parse(stylePath).ext))
+			continue;
+		details.hash = await getStyleHash(stylePath, details, new Set());
 	}
 
-	for (const [file, details] of files) {
-		const toReplace = toReplacePaths.find(
-			(item) => entrypointToOutput.get(item.from) === file.name,
-		);
-		if (!toReplace) continue;
-		const output = entrypointToOutput.get(toReplace.resolved);
-		const fromOutput = entrypointToOutput.get(toReplace.from);
-		if (!output || !fromOutput) continue;
-		const newPath = path.relative(path.parse(fromOutput).dir, output);
-		details.content = (await contentToString(details.content))
-			.replaceAll(`from "${toReplace.path}"`, `from "./${newPath}"`)
-			.replaceAll(`from"${toReplace.path}"`, `from"./${newPath}"`)
-			.replaceAll(`require("${toReplace.path}")`, `require("./${newPath}")`);
+	for (const details of files.values()) {
+		if (details.kind !== 'entry-point') continue;
+		const hashes = [details.hash];
+		for (const dependency of files.values()) {
+			if (
+				dependency !== details &&
+				isImportedBy(dependency, details.htmlImporter)
+			)
+				hashes.push(dependency.hash);
+		}
+		details.hash = Bun.hash(hashes.join(''), 1).toString(16).slice(0, 8);
 	}
 }
 
-async function forStyleFiles(
+/**
+ * Finds the assets within the `inlineLimit`, keyed by their original path, which are embedded as data
+ * URIs instead of being written. Assets referenced with a `#fragment`, like svg sprites, stay files.
+ */
+async function getDataURIs(
 	options: BunPluginHTMLOptions | undefined,
-	build: PluginBuilder,
-	htmlOptions: HtmlMinifyOptions,
 	files: Map<BunFile, FileDetails>,
+	buildExtensions: readonly string[],
 ) {
-	const cssMinifier = getCSSMinifier(build.config, htmlOptions);
-	const cssFiles = getExtensionFiles(files, ['.css', '.scss', '.sass']);
-
-	if (!cssFiles) return;
+	const dataURIs: Map<string, string> = new Map();
+	const limit = options?.inlineLimit;
+	if (limit === undefined) return dataURIs;
 
-	for (const item of cssFiles) {
-		const file = item.file;
-		let content =
-			(await contentToString(item.details.content)) || (await file.text());
-		const { originalPath } = item.details;
-		if (/\.s[ac]ss$/i.test(originalPath || '')) {
-			content = sass.compileString(content, { style: 'compressed' }).css;
-		} else {
-			content = cssMinifier(content);
+	const styleExtensions = getStyleExtensions(options);
+	const fragmentReferenced: Set<string> = new Set();
+	for (const [file, details] of files) {
+		if (!details.originalPath) continue;
+		for (const attribute of details.attributes ?? []) {
+			if (getPathSuffix(attribute.candidate ?? attribute.value).includes('#'))
+				fragmentReferenced.add(details.originalPath);
 		}
+		if (!styleExtensions.includes(path.parse(details.originalPath).ext))
+			continue;
+		for (const reference of getStyleReferences(
+			await contentToString(details.content),
+		)) {
+			const suffix = getPathSuffix(reference);
+			if (!suffix.includes('#')) continue;
+			fragmentReferenced.add(
+				path.resolve(
+					path.dirname(details.originalPath),
+					reference.substring(0, reference.length - suffix.length),
+				),
+			);
+		}
+	}
 
-		files.delete(file);
+	for (const [file, details] of files) {
+		const { originalPath } = details;
+		if (!originalPath || details.kind === 'entry-point') continue;
+		const extension = path.parse(originalPath).ext;
+		if (
+			buildExtensions.includes(extension) ||
+			styleExtensions.includes(extension) ||
+			htmlExtensionMatcher.test(extension)
+		)
+			continue;
+		const maxSize = typeof limit === 'number' ? limit : limit[extension];
+		if (maxSize === undefined || fragmentReferenced.has(originalPath)) continue;
+
+		const content =
+			details.content === undefined
+				? file
+				: new Blob(
+						(Array.isArray(details.content)
+							? details.content
+							: [details.content]) as BlobPart[],
+					);
+		if (content.size > maxSize) continue;
+		dataURIs.set(
+			originalPath,
+			toDataURI(await content.arrayBuffer(), Bun.file(originalPath).type),
+		);
 	}
 
-	return cssFiles;
+	return dataURIs;
 }
 
-interface NamedAs {
-	[name: string]: {
-		[dir: string]: {
-			as: string;
-			fd: BunFile;
-		};
-	};
+function setIntegrity(el: HTMLRewriterTypes.Element, integrity: string) {
+	el.setAttribute('integrity', integrity);
+	// integrity checks require a CORS request for cross-origin files
+	if (!el.hasAttribute('crossorigin'))
+		el.setAttribute('crossorigin', 'anonymous');
 }
 
-function mapIntoKeys(files: Map<BunFile, FileDetails>) {
-	const keys = [];
-	for (const key of files.keys()) {
-		keys.push(key.name as string);
-	}
+type AttributeChanger = (
+	rewriter: HTMLRewriter,
+	fileLocation: string,
+	htmlPath: string,
+) => void;
+
+/**
+ * Runs `handler` on the inline `<script type="module">` block the virtual entrypoint described by
+ * `details` was extracted from.
+ */
+function onInlineModule(
+	rewriter: HTMLRewriter,
+	htmlPath: string,
+	details: FileDetails,
+	excluded: readonly string[],
+	handler: (el: HTMLRewriterTypes.Element) => void | Promise<void>,
+) {
+	if (details.htmlImporter !== htmlPath) return;
 
-	return keys;
+	let index = 0;
+	rewriter.on(`${inlineModuleSelector}${getExcludedSelector(excluded)}`, {
+		async element(el) {
+			if (index++ === details.inlineModule) await handler(el);
+		},
+	});
 }
 
 async function processHtmlFiles(
@@ -557,25 +2336,48 @@ async function processHtmlFiles(
 	build: PluginBuilder,
 	files: Map<BunFile, FileDetails>,
 	buildExtensions: readonly string[],
+	htmlOptions: HtmlMinifyOptions,
+	outputPaths: Map<string, string>,
+	dataURIs: Map<string, string>,
+	excluded: readonly string[],
 ) {
 	const htmlFiles = getExtensionFiles(files, ['.html', '.htm']);
-	const toChangeAttributes: ((
-		rewriter: HTMLRewriter,
-		fileLocation: string,
-	) => void)[] = [];
+	const toChangeAttributes: AttributeChanger[] = [];
+	const inlineJs =
+		options &&
+		(options.inline === true ||
+			(typeof options.inline === 'object' && options.inline?.js === true));
 
 	if (!htmlFiles) return toChangeAttributes;
 
 	for (const htmlFile of htmlFiles) {
 		for (const [file, details] of files) {
-			const attribute = details.attribute;
-			if (attribute) {
-				const selector = attributeToSelector(attribute);
+			if (details.inlineModule !== undefined) {
+				if (!inlineJs) continue;
+				files.delete(file);
+
+				toChangeAttributes.push((rewriter, fileLocation, htmlPath) => {
+					onInlineModule(rewriter, htmlPath, details, excluded, async (el) => {
+						const content = (await contentToString(details.content)).replaceAll(
+							/(<)(\/script>)/g,
+							'\\x3C$2',
+						);
+						el.setInnerContent(content, {
+							html: true,
+						});
+					});
+				});
+				continue;
+			}
+
+			const attributes = details.attributes;
+			if (attributes) {
+				const selector = attributeToSelector(attributes);
 
 				if (!file.name) continue;
 				const extension = path.parse(file.name).ext;
 
-				if (/\.(c|s[ac])ss$/i.test(extension)) {
+				if (getStyleExtensions(options).includes(extension)) {
 					if (
 						options &&
 						(options.inline === true ||
@@ -583,15 +2385,20 @@ async function processHtmlFiles(
 								options.inline?.css === true))
 					) {
 						files.delete(file);
-						toChangeAttributes.push((rewriter: HTMLRewriter) => {
+						toChangeAttributes.push((rewriter, fileLocation, htmlPath) => {
+							if (!isImportedBy(details, htmlPath)) return;
 							rewriter.on(selector, {
 								async element(el) {
-									let content =
+									// inlined references are relative to the html file instead
+									const content = rewriteStyleReferences(
+										options,
 										(await contentToString(details.content)) ||
-										(await file.text());
-									if (/\.s[ac]ss$/i.test(extension)) {
-										content = sass.compileString(content).css;
-									}
+											(await file.text()),
+										details.originalPath || (file.name as string),
+										path.dirname(path.resolve(fileLocation)),
+										outputPaths,
+										dataURIs,
+									);
 									el.replace(`<style>${content}</style>`, {
 										html: true,
 									});
@@ -600,15 +2407,11 @@ async function processHtmlFiles(
 						});
 					}
 				} else if (buildExtensions.includes(extension)) {
-					if (
-						options &&
-						(options.inline === true ||
-							(typeof options.inline === 'object' &&
-								options.inline?.js === true))
-					) {
+					if (inlineJs) {
 						files.delete(file);
 
-						toChangeAttributes.push((rewriter: HTMLRewriter) => {
+						toChangeAttributes.push((rewriter, fileLocation, htmlPath) => {
+							if (!isImportedBy(details, htmlPath)) return;
 							rewriter.on(selector, {
 								async element(el) {
 									const contentToStringThing = await contentToString(
@@ -644,29 +2447,6 @@ async function processHtmlFiles(
 	return toChangeAttributes;
 }
 
-function keepNamedAs(
-	parsedOriginPath: path.ParsedPath,
-	parsedNewPath: path.ParsedPath,
-	resolved: string,
-	namedAs: NamedAs,
-) {
-	const { root, dir, base } = parsedOriginPath;
-	const names = namedAs[base] || {};
-	const nameDir = path.join(root, dir);
-	if (!names[nameDir]) {
-		const as = path.join(
-			parsedNewPath.root,
-			parsedNewPath.dir,
-			parsedNewPath.base,
-		);
-		if (as !== path.join(nameDir, base)) {
-			names[nameDir] = { as, fd: Bun.file(resolved) };
-			namedAs[base] = names;
-		}
-	}
-	return names[nameDir];
-}
-
 async function renameFile(
 	options: BunPluginHTMLOptions | undefined,
 	build: PluginBuilder,
@@ -674,7 +2454,6 @@ async function renameFile(
 	hash: string,
 	kind: BuildArtifact['kind'],
 	sharedPath: string,
-	namedAs: NamedAs,
 ) {
 	let buildNamingType: 'chunk' | 'entry' | 'asset' = 'asset';
 	if (kind === 'entry-point') buildNamingType = 'entry';
@@ -685,7 +2464,8 @@ async function renameFile(
 	const extension = path.parse(file.name).ext;
 
 	let naming: string | undefined;
-	if (/\.(c|s[ac])ss$/i.test(extension) && options && options.naming?.css) {
+	const isStylesheet = getStyleExtensions(options).includes(extension);
+	if (isStylesheet && options?.naming?.css) {
 		naming = options.naming.css;
 	} else if (typeof build.config.naming === 'string') {
 		naming = build.config.naming;
@@ -703,7 +2483,7 @@ async function renameFile(
 	let ext = parsedPath.ext.replace('.', '');
 	const name = parsedPath.name;
 
-	if (/s[ac]ss$/i.test(ext)) {
+	if (isStylesheet) {
 		ext = 'css';
 	}
 
@@ -713,97 +2493,54 @@ async function renameFile(
 		.replaceAll('[ext]', ext)
 		.replaceAll('[name]', name);
 
-	const resolved = path.resolve(sharedPath, newPath);
-
-	const newPathParsed = path.parse(newPath);
-	const named = keepNamedAs(parsedPath, newPathParsed, resolved, namedAs);
-	return named?.fd || Bun.file(resolved);
+	return Bun.file(path.resolve(sharedPath, newPath));
 }
 
 const html = (options?: BunPluginHTMLOptions): BunPlugin => {
-	const _keepOriginalPaths = options?.keepOriginalPaths;
-	const _namedAs: NamedAs = {};
 	const _pathSaved: { [path: string]: boolean } = {};
+	const _state: PluginState = {
+		outputs: [],
+		dependencies: new Map(),
+		manifest: {},
+		incremental: false,
+		styleExtensions: getStyleExtensions(options),
+	};
+	const _outputs = _state.outputs;
 
 	const save = async (
 		name: string,
 		body: Blob | NodeJS.TypedArray | ArrayBufferLike | string | Bun.BlobPart[],
-		options?: Parameters<typeof Bun.write>[2],
+		details: Pick<FileDetails, 'kind' | 'hash'>,
 		outdir?: string,
-	) => {
-		if (_pathSaved[name]) return; // avoid duplicated-saving a file
+	): Promise<BuildArtifact | undefined> => {
+		// without an outdir the outputs are only kept in memory, like `Bun.build` does
+		const outputPath = outdir ? path.resolve(name) : `./${name}`;
+		if (_pathSaved[name])
+			// avoid duplicated-saving a file
+			return _outputs.find((output) => output.path === outputPath);
 		_pathSaved[name] = true;
-		if (_keepOriginalPaths === true || typeof body !== 'string') {
-			return await Bun.write(name, body, options);
-		}
-		// replace mapping items string inside body
-		let content = body;
-		// host relative dir
-		const hostDir = path.relative(outdir || '.', path.parse(name).dir);
-
-		const originNames = Object.keys(_namedAs);
-		for (let j = 0; j < originNames.length; j++) {
-			const originName = originNames[j];
-			const originNameMatcher = originName.replace(/\./g, '\\.');
-			const clue = new RegExp(
-				`(['"])([^'"\\n]*\/)?${originNameMatcher}([?#][^'"]*)?\\1|\\(([^\\)\\n'"]+\/)?${originNameMatcher}([?#][^'"\\)]*)?\\)`,
-				'g',
-			);
-			const pathStrings = content.match(clue);
-			if (!pathStrings) continue;
-			const asNewNames = _namedAs[originName];
-			for (let i = 0; i < pathStrings.length; i++) {
-				const pathStrCtx: string = pathStrings[i];
-				let [prefix, pathString, suffix]: string[] = [
-					pathStrCtx.substring(0, 1),
-					pathStrCtx.substring(1, pathStrCtx.length - 1),
-					pathStrCtx.substring(pathStrCtx.length - 1),
-				];
-				if (isURL(pathString)) continue;
-				const pathExtraTail = pathString.match(/[?#]/);
-				if (pathExtraTail?.index) {
-					// with extra query or hash
-					suffix = pathString.substring(pathExtraTail.index) + suffix;
-					pathString = pathString.substring(0, pathExtraTail.index);
-				}
-				if (
-					Array.isArray(_keepOriginalPaths) &&
-					_keepOriginalPaths.length > 0 &&
-					_keepOriginalPaths.some(
-						(s) => pathString.length >= s.length && pathString.endsWith(s),
-					)
-				)
-					continue;
-
-				for (const originDir in asNewNames) {
-					const originPath = path.join(originDir, originName);
-					let { as: newPath } = asNewNames[originDir];
-					if (pathString.startsWith('/')) {
-						newPath = `/${newPath}`;
-					} else if (
-						pathString.replace(/^\.\//, '') !== originPath.replace(/^\.\//, '')
-					) {
-						const pathStrDir = path.parse(path.join(hostDir, pathString)).dir;
-						if (pathStrDir !== originDir) continue; // same dir
-						newPath = path.relative(hostDir, newPath);
-					} else if(/^.\//.test(pathString) && !/^.\//.test(newPath)) {
-            newPath = `./${newPath}`;
-					}
-					content = content.replace(pathStrCtx, `${prefix}${newPath}${suffix}`);
-				}
-			}
-		}
-		return await Bun.write(name, content, options);
+		const artifact = new OutputArtifact(outputPath, body, details);
+		// a file named after its hash that already exists doesn't need to be written again
+		const unchanged =
+			outdir && name.indexOf(details.hash) > -1 && (await fs.exists(name));
+		if (outdir && !unchanged)
+			await Bun.write(name, artifact, { createPath: true });
+		_outputs.push(artifact);
+		return artifact;
 	};
 
-	return {
+	const plugin: BunPlugin = {
 		name: 'bun-plugin-html',
 		async setup(build) {
-			build.onLoad({ filter: /\.(html|htm)$/ }, async (args) => {
-				throw new Error(
-					'bun-plugin-html does not support output information at this time.',
-				);
+			build.onLoad({ filter: htmlExtensionMatcher }, async (args) => {
+				throw new Error(htmlEntrypointError);
 			});
+			// the same plugin instance may be used for several builds
+			_outputs.length = 0;
+			for (const name of Object.keys(_pathSaved)) delete _pathSaved[name];
+
+			// `build` hands Bun.build only the other entrypoints, the html ones are kept in the state
+			const entrypoints = [...(_state.entrypoints ?? build.config.entrypoints)];
 
 			const htmlOptions = options?.minifyOptions ?? defaultMinifyOptions;
 
@@ -814,9 +2551,10 @@ const html = (options?: BunPluginHTMLOptions): BunPlugin => {
 				? options.includeExtensions.concat(extensionsToBuild)
 				: extensionsToBuild;
 
+			const placeholders = getPlaceholderValues(options, build.config);
 			const filesPromises = await Promise.all(
-				build.config.entrypoints.map((entrypoint) =>
-					getAllFiles(options, entrypoint, excluded),
+				entrypoints.map((entrypoint) =>
+					getAllFiles(options, entrypoint, excluded, placeholders),
 				),
 			);
 			let files: Map<BunFile, FileDetails> = new Map(
@@ -830,21 +2568,101 @@ const html = (options?: BunPluginHTMLOptions): BunPlugin => {
 				files = processor.export();
 			}
 
-			await forJsFiles(options, build, files, buildExtensions, htmlOptions);
-			if (!build.config.experimentalCss)
-				await forStyleFiles(options, build, htmlOptions, files);
+			await forStyleFiles(options, build, files, htmlOptions, placeholders);
+			_state.dependencies = await getDependencies(files);
+			await forJsFiles(
+				options,
+				build,
+				files,
+				buildExtensions,
+				htmlOptions,
+				_state.incremental ? _state.commonPath : undefined,
+			);
+
+			// original paths to their final output paths, filled in once all files are named
+			const outputPaths: Map<string, string> = new Map();
+			const dataURIs = await getDataURIs(options, files, buildExtensions);
+			await setContentHashes(options, files, buildExtensions);
+			const embedded = [...files].filter(
+				([file, details]) =>
+					details.originalPath && dataURIs.has(details.originalPath),
+			);
+			for (const [file] of embedded) files.delete(file);
 
 			const attributesToChange = await processHtmlFiles(
 				options,
 				build,
 				files,
 				buildExtensions,
+				htmlOptions,
+				outputPaths,
+				dataURIs,
+				excluded,
 			);
 
+			for (const [file, details] of embedded) {
+				const { attributes, originalPath } = details;
+				const dataURI = originalPath && dataURIs.get(originalPath);
+				if (!attributes || !dataURI) continue;
+				attributesToChange.push((rewriter, fileLocation, htmlPath) => {
+					if (!isImportedBy(details, htmlPath)) return;
+					rewriter.on(attributeToSelector(attributes), {
+						element(el) {
+							setReferenceAttributes(options, el, attributes, dataURI, false);
+						},
+					});
+				});
+			}
+
 			const keys = mapIntoKeys(files);
-			const commonPath = findLastCommonPath(keys);
+			const commonPath = findLastCommonPath(
+				_state.incremental && _state.commonPath
+					? [...keys, path.join(_state.commonPath, path.sep)]
+					: keys,
+			);
+			_state.commonPath = commonPath;
 
 			const newFiles: [BunFile, FileDetails][] = [];
+			// writes the source map of `name` next to it, unless it is inlined, and points `content` at it
+			const addSourceMap = async (
+				name: string,
+				content: string,
+				sourceMap: SourceMap | undefined,
+			) => {
+				const type = getSourceMapType(build.config);
+				if (!type || !sourceMap) return content;
+				// without an outdir, outputs are placed as if they were written next to their sources
+				const filePath = build.config.outdir
+					? path.resolve(name)
+					: path.resolve(commonPath, name);
+				const mapName = `${name}.map`;
+				const relocated = relocateSourceMap(
+					sourceMap,
+					`${filePath}.map`,
+					filePath,
+				);
+				const extension = path.parse(name).ext;
+				if (type === 'inline')
+					return addSourceMapComment(
+						content,
+						sourceMapToDataURL(relocated),
+						extension,
+					);
+				const json = JSON.stringify(relocated);
+				await save(
+					mapName,
+					json,
+					{
+						kind: 'sourcemap',
+						hash: Bun.hash(json, 1).toString(16).slice(0, 8),
+					},
+					build.config.outdir,
+				);
+				if (type === 'external') return content;
+				return addSourceMapComment(content, path.basename(mapName), extension);
+			};
+			// paths of the bundled scripts before and after naming, to point their imports at the final paths
+			const finalPaths: Map<string, string> = new Map();
 
 			for (const [file, details] of files.entries()) {
 				if (!file.name) continue;
@@ -853,26 +2671,24 @@ const html = (options?: BunPluginHTMLOptions): BunPlugin => {
 
 				if (buildExtensions.includes(extension)) {
 					let filePath = removeCommonPath(file.name, commonPath);
-					const parsedNewPath = path.parse(filePath);
 					if (build.config.outdir)
 						filePath = path.resolve(build.config.outdir, filePath);
-					const named = details.originalPath
-						? keepNamedAs(
-								path.parse(removeCommonPath(details.originalPath, commonPath)),
-								parsedNewPath,
-								filePath,
-								_namedAs,
-							)
-						: undefined;
+					const newFile = Bun.file(filePath);
+					finalPaths.set(file.name, path.resolve(newFile.name as string));
 					newFiles.push([
-						named?.fd || Bun.file(filePath),
+						newFile,
 						{
 							content,
+							attributes: details.attributes,
 							attribute: details.attribute,
+							inlineModule: details.inlineModule,
+							imports: details.imports,
+							sourceMap: details.sourceMap,
 							kind: details.kind,
 							hash: details.hash,
 							originalPath: details.originalPath,
 							htmlImporter: details.htmlImporter,
+							htmlImporters: details.htmlImporters,
 						},
 					]);
 					continue;
@@ -885,7 +2701,6 @@ const html = (options?: BunPluginHTMLOptions): BunPlugin => {
 					details.hash,
 					details.kind,
 					commonPath,
-					_namedAs,
 				);
 				if (!newFile.name) continue;
 				let filePath = removeCommonPath(newFile.name, commonPath);
@@ -895,11 +2710,15 @@ const html = (options?: BunPluginHTMLOptions): BunPlugin => {
 					Bun.file(filePath),
 					{
 						content,
+						attributes: details.attributes,
 						attribute: details.attribute,
+						inlineModule: details.inlineModule,
+						sourceMap: details.sourceMap,
 						kind: details.kind,
 						hash: details.hash,
 						originalPath: details.originalPath,
 						htmlImporter: details.htmlImporter,
+						htmlImporters: details.htmlImporters,
 					},
 				]);
 			}
@@ -908,32 +2727,93 @@ const html = (options?: BunPluginHTMLOptions): BunPlugin => {
 				newFiles.map(([name]) => name.name as string),
 			);
 
+			for (const [file, details] of newFiles) {
+				if (!file.name || !details.originalPath) continue;
+				outputPaths.set(details.originalPath, path.resolve(file.name));
+			}
+
 			for (const [file, details] of newFiles.filter(
 				([file, details]) => details.kind !== 'entry-point',
 			)) {
 				const { name } = file;
 				if (!name || !details.content) continue;
-				if (name.indexOf(details.hash) > -1 && (await fs.exists(name)))
+
+				let saved: BuildArtifact | undefined;
+				if (
+					details.originalPath &&
+					_state.styleExtensions.includes(path.parse(details.originalPath).ext)
+				) {
+					const content = rewriteStyleReferences(
+						options,
+						await contentToString(details.content),
+						details.originalPath,
+						path.dirname(path.resolve(name)),
+						outputPaths,
+						dataURIs,
+					);
+					saved = await save(
+						name,
+						await addSourceMap(name, content, details.sourceMap),
+						details,
+						build.config.outdir,
+					);
+				} else {
+					const content = details.imports
+						? rewriteOutputImports(
+								options,
+								await contentToString(details.content),
+								path.resolve(name),
+								details.imports,
+								finalPaths,
+							)
+						: details.content;
+					saved = await save(
+						name,
+						details.sourceMap
+							? await addSourceMap(
+									name,
+									await contentToString(content),
+									details.sourceMap,
+								)
+							: content,
+						details,
+						build.config.outdir,
+					);
+				}
+
+				const integrity =
+					options?.integrity && saved && /\.(js|css)$/.test(name)
+						? await getIntegrity(
+								saved,
+								options.integrity === true ? undefined : options.integrity,
+							)
+						: undefined;
+
+				if (details.inlineModule !== undefined) {
+					attributesToChange.push((rewriter, fileLocation, htmlPath) => {
+						onInlineModule(rewriter, htmlPath, details, excluded, (el) => {
+							el.setAttribute(
+								'src',
+								path.relative(path.dirname(fileLocation), name),
+							);
+							if (integrity) setIntegrity(el, integrity);
+							el.setInnerContent('');
+						});
+					});
 					continue;
-				await save(
-					name,
-					details.content,
-					{
-						createPath: true,
-					},
-					build.config.outdir,
-				);
+				}
 
-				if (!details.attribute) continue;
-				const attribute = details.attribute;
-				const selector = attributeToSelector(attribute);
+				if (!details.attributes) continue;
+				const attributes = details.attributes;
+				const selector = attributeToSelector(attributes);
 				const extension = path.parse(name).ext;
 
-				attributesToChange.push((rewriter, fileLocation) => {
+				attributesToChange.push((rewriter, fileLocation, htmlPath) => {
+					// the same reference may point to another file from another page
+					if (!isImportedBy(details, htmlPath)) return;
 					rewriter.on(selector, {
 						element(el) {
-							if (el.getAttribute(attribute.name) === null || !file.name)
-								return;
+							if (!file.name) return;
 
 							let filePath = path.relative(
 								path.dirname(fileLocation),
@@ -943,40 +2823,469 @@ const html = (options?: BunPluginHTMLOptions): BunPlugin => {
 							if (buildExtensions.includes(extension))
 								filePath = changeFileExtension(filePath, '.js');
 
-							el.setAttribute(attribute.name, filePath);
+							setReferenceAttributes(options, el, attributes, filePath);
+
+							if (
+								integrity &&
+								(el.tagName === 'script' || el.tagName === 'link')
+							)
+								setIntegrity(el, integrity);
 						},
 					});
 				});
 			}
 
+			const policies: Map<string, string> = new Map();
 			for (const [file, details] of newFiles.filter(
 				([file, details]) => details.kind === 'entry-point',
 			)) {
 				let fileContents = await contentToString(details.content);
 				const rewriter = new HTMLRewriter();
+				let dependencies = _state.dependencies.get(details.htmlImporter);
+				if (!dependencies) {
+					dependencies = new Set([details.htmlImporter]);
+					_state.dependencies.set(details.htmlImporter, dependencies);
+				}
+				compileInlineBlocks(
+					rewriter,
+					options,
+					build,
+					htmlOptions,
+					excluded,
+					details.htmlImporter,
+					dependencies,
+				);
 				for (const item of attributesToChange)
-					item(rewriter, file.name as string);
+					item(rewriter, file.name as string, details.htmlImporter);
 				fileContents = rewriter.transform(fileContents);
 				fileContents =
 					build.config.minify && htmlOptions.minifyHTML
 						? await minify(fileContents, htmlOptions)
 						: fileContents;
 
+				// hashed last, as minifying changes the inline blocks
+				if (options?.csp && file.name) {
+					const { content, policy } = await addContentSecurityPolicy(
+						fileContents,
+						options.csp === true || options.csp.meta !== false,
+					);
+					fileContents = content;
+					if (policy) policies.set(file.name, policy);
+				}
+
 				const { name } = file;
 				if (!name) continue;
-				if (name.indexOf(details.hash) > -1 && (await fs.exists(name)))
-					continue;
+				await save(name, fileContents, details, build.config.outdir);
+			}
+
+			if (options?.manifest) {
+				_state.manifest = {
+					...(_state.incremental ? _state.manifest : {}),
+					...createManifest(
+						newFiles,
+						commonPath,
+						build.config.outdir,
+						policies,
+					),
+				};
+				const manifest = JSON.stringify(_state.manifest, null, 2);
+				const manifestPath =
+					typeof options.manifest === 'string'
+						? options.manifest
+						: 'manifest.json';
 				await save(
-					name,
-					fileContents,
+					build.config.outdir
+						? path.resolve(build.config.outdir, manifestPath)
+						: manifestPath,
+					manifest,
 					{
-						createPath: true,
+						kind: 'asset',
+						hash: Bun.hash(manifest, 1).toString(16).slice(0, 8),
 					},
 					build.config.outdir,
 				);
 			}
 		},
 	};
+
+	pluginStates.set(plugin, _state);
+	return plugin;
+};
+
+/**
+ * Calls `Bun.build`, and adds every file written by `bun-plugin-html` (the html entrypoints, their
+ * scripts, stylesheets and assets) to the returned `outputs`.
+ */
+export async function build(config: BuildConfig): Promise<BuildOutput> {
+	const plugin = config.plugins?.find((plugin) => pluginStates.has(plugin));
+	const state = plugin ? pluginStates.get(plugin) : undefined;
+	if (!state) return await Bun.build(config);
+
+	const otherEntrypoints = config.entrypoints.filter(
+		(entrypoint) => !htmlExtensionMatcher.test(entrypoint),
+	);
+	state.entrypoints = config.entrypoints;
+	let result: BuildOutput;
+	try {
+		result = await Bun.build({
+			...config,
+			entrypoints:
+				otherEntrypoints.length > 0 ? otherEntrypoints : config.entrypoints,
+		});
+	} catch (error) {
+		// Bun 1.2 and later reject failed builds instead of resolving them
+		if (!(error instanceof AggregateError)) throw error;
+		result = { success: false, logs: error.errors, outputs: [] };
+	} finally {
+		state.entrypoints = undefined;
+	}
+
+	const logs = result.logs.filter((log) => log.message !== htmlEntrypointError);
+	return {
+		success: !logs.some((log) => log.level === 'error'),
+		logs,
+		outputs: [...state.outputs, ...result.outputs],
+	};
+}
+
+/**
+ * Builds without an `outdir`, so nothing is written next to the sources, and returns every output
+ * keyed by its path relative to the output root, for example `./index.html`.
+ */
+export async function buildInMemory(
+	config: Omit<BuildConfig, 'outdir'>,
+): Promise<Map<string, BuildArtifact>> {
+	const result = await build({ ...config, outdir: undefined });
+	if (!result.success)
+		throw new AggregateError(result.logs, 'bun-plugin-html - Build failed');
+
+	return new Map(result.outputs.map((output) => [output.path, output]));
+}
+
+export type WatchOptions = {
+	/** Called after every rebuild with its result and the changed files that caused it. */
+	onRebuild?: (result: BuildOutput, changed: string[]) => void | Promise<void>;
+	/** How long to wait for further changes before rebuilding, in milliseconds. Defaults to 50. */
+	debounce?: number;
+};
+
+export type Watcher = {
+	/** The result of the initial build. */
+	result: BuildOutput;
+	/** The outputs of every entrypoint as of the latest rebuild, of which `onRebuild` only gets the rebuilt ones. */
+	getOutputs(): BuildArtifact[];
+	/** Stops watching, resolving once a rebuild in progress has finished. */
+	close(): Promise<void>;
+};
+
+/**
+ * Builds once, then watches the source files of every entrypoint and rebuilds only the entrypoints
+ * affected by a change: html files with everything they reference, other entrypoints with the modules
+ * they import.
+ */
+export async function watch(
+	config: BuildConfig,
+	options?: WatchOptions,
+): Promise<Watcher> {
+	const plugin = config.plugins?.find((plugin) => pluginStates.has(plugin));
+	const state = plugin ? pluginStates.get(plugin) : undefined;
+
+	const entrypoints = new Map(
+		config.entrypoints.map((entrypoint) => [
+			path.resolve(entrypoint),
+			entrypoint,
+		]),
+	);
+	if (state) {
+		state.incremental = true;
+		// pages are placed relative to every entrypoint from the first build on, as a single build would
+		state.commonPath = findLastCommonPath([...entrypoints.keys()]);
+	}
+	const otherEntrypoints = [...entrypoints.keys()].filter(
+		(entrypoint) => !htmlExtensionMatcher.test(entrypoint),
+	);
+	// pinned, so rebuilding some entrypoints doesn't move their outputs
+	const root = config.root ?? findLastCommonPath(otherEntrypoints);
+	const dependencies: Map<string, Set<string>> = new Map();
+
+	// the outputs of every build, keyed by its first entrypoint and replaced once it is rebuilt
+	const groupOutputs: Map<string, BuildArtifact[]> = new Map();
+	// assets shared by several pages are part of the outputs of each
+	const uniqueOutputs = (outputs: BuildArtifact[][]) => [
+		...new Map(outputs.flat().map((output) => [output.path, output])).values(),
+	];
+
+	const buildGroup = async (group: string[]) => {
+		const html = htmlExtensionMatcher.test(group[0]);
+		const result = await build({
+			...config,
+			entrypoints: group.map((entrypoint) => entrypoints.get(entrypoint)),
+			...(html
+				? {}
+				: { plugins: config.plugins?.filter((item) => item !== plugin), root }),
+		} as BuildConfig);
+		groupOutputs.set(group[0], result.outputs);
+
+		for (const entrypoint of group)
+			dependencies.set(
+				entrypoint,
+				html
+					? (state?.dependencies.get(entrypoint) ?? new Set([entrypoint]))
+					: await getImportedFiles(
+							entrypoint,
+							undefined,
+							new Set([entrypoint]),
+						),
+			);
+		return result;
+	};
+
+	const rebuild = async (resolvedEntrypoints: string[]) => {
+		const html = resolvedEntrypoints.filter((entrypoint) =>
+			htmlExtensionMatcher.test(entrypoint),
+		);
+		const others = resolvedEntrypoints.filter(
+			(entrypoint) => !htmlExtensionMatcher.test(entrypoint),
+		);
+		// every build owns its outputs, so the chunks shared by split entrypoints are built together
+		const groups = [
+			...html.map((entrypoint) => [entrypoint]),
+			...(config.splitting && others.length > 0
+				? [otherEntrypoints]
+				: others.map((entrypoint) => [entrypoint])),
+		];
+
+		const results: BuildOutput[] = [];
+		for (const group of groups) results.push(await buildGroup(group));
+
+		return {
+			success: results.every((result) => result.success),
+			logs: results.flatMap((result) => result.logs),
+			outputs: uniqueOutputs(results.map((result) => result.outputs)),
+		} as BuildOutput;
+	};
+
+	// directories are watched instead of files, as editors often replace a file when saving it
+	const watchers: Map<string, FSWatcher> = new Map();
+	const changed: Set<string> = new Set();
+	let timeout: Timer | undefined;
+	let queue = Promise.resolve();
+	let closed = false;
+
+	const onChange = () => {
+		queue = queue.then(async () => {
+			if (closed) return;
+			const files = [...changed];
+			changed.clear();
+			const affected = [...dependencies]
+				.filter(([, sources]) => files.some((file) => sources.has(file)))
+				.map(([entrypoint]) => entrypoint);
+			if (affected.length === 0) return;
+
+			try {
+				const result = await rebuild(affected);
+				updateWatchers();
+				await options?.onRebuild?.(result, files);
+			} catch (error) {
+				console.error(error);
+			}
+		});
+	};
+
+	const updateWatchers = () => {
+		if (closed) return;
+		const directories = new Set(
+			[...dependencies.values()].flatMap((files) =>
+				[...files].map((file) => path.dirname(file)),
+			),
+		);
+		for (const [directory, watcher] of watchers) {
+			if (directories.has(directory)) continue;
+			watcher.close();
+			watchers.delete(directory);
+		}
+		for (const directory of directories) {
+			if (watchers.has(directory)) continue;
+			watchers.set(
+				directory,
+				fsWatch(directory, (event, filename) => {
+					if (!filename) return;
+					changed.add(path.resolve(directory, filename.toString()));
+					clearTimeout(timeout);
+					timeout = setTimeout(onChange, options?.debounce ?? 50);
+				}),
+			);
+		}
+	};
+
+	const result = await rebuild([...entrypoints.keys()]);
+	updateWatchers();
+
+	return {
+		result,
+		getOutputs: () => uniqueOutputs([...groupOutputs.values()]),
+		async close() {
+			closed = true;
+			clearTimeout(timeout);
+			for (const watcher of watchers.values()) watcher.close();
+			watchers.clear();
+			// a rebuild in progress still writes its outputs
+			await queue;
+			if (state) state.incremental = false;
+		},
+	};
+}
+
+export type ServeOptions = Omit<WatchOptions, 'onRebuild'> & {
+	/** Defaults to 3000, use 0 for a random free port. */
+	port?: number;
+	hostname?: string;
+};
+
+export type DevServer = {
+	server: Server;
+	/** The result of the initial build. */
+	result: BuildOutput;
+	/** Stops the watcher and the server, once a rebuild in progress has finished. */
+	close(): Promise<void>;
 };
 
+const liveReloadPath = '/__bun-plugin-html';
+
+// swaps stylesheets for the ones of the rebuilt page, and reloads on any other change
+const liveReloadScript = `
+(() => {
+	const socket = new WebSocket(\`\${location.protocol === 'https:' ? 'wss' : 'ws'}://\${location.host}${liveReloadPath}\`);
+	socket.addEventListener('message', async (event) => {
+		if (event.data !== 'css') return location.reload();
+		const response = await fetch(location.href, { cache: 'no-store' });
+		const page = new DOMParser().parseFromString(await response.text(), 'text/html');
+		const selector = 'link[rel="stylesheet"], style';
+		const current = document.querySelectorAll(selector);
+		const updated = page.querySelectorAll(selector);
+		if (current.length !== updated.length) return location.reload();
+		current.forEach((element, index) => element.replaceWith(document.importNode(updated[index], true)));
+	});
+})();
+`;
+const liveReloadClient = `<script>${liveReloadScript}</script>`;
+
+/**
+ * Appends the live reload client to the page, adding its hash to the Content-Security-Policy of the page
+ * unless the policy allows any inline script already.
+ */
+async function injectLiveReloadClient(content: string) {
+	const source = `'${await getIntegrity(new Blob([liveReloadScript]), 'sha256')}'`;
+	let injected = false;
+	const rewriter = new HTMLRewriter()
+		.on(cspMetaSelector, {
+			element(el) {
+				const directives = parseContentSecurityPolicy(
+					el.getAttribute('content') ?? '',
+				);
+				const scriptSources =
+					directives['script-src'] ?? directives['default-src'] ?? [];
+				// `'unsafe-inline'` is ignored by browsers once a hash or nonce is listed
+				if (
+					scriptSources.includes("'unsafe-inline'") &&
+					!scriptSources.some((source) => /^'(sha\d+|nonce)-/.test(source))
+				)
+					return;
+				addPolicySource(
+					directives,
+					'script-src',
+					source,
+					getExternalSources(content)['script-src'],
+				);
+				el.setAttribute('content', stringifyContentSecurityPolicy(directives));
+			},
+		})
+		.on('body', {
+			element(el) {
+				el.append(liveReloadClient, { html: true });
+				injected = true;
+			},
+		});
+	const transformed = rewriter.transform(content);
+	return injected ? transformed : `${transformed}${liveReloadClient}`;
+}
+
+/**
+ * Serves the outputs of `config` from memory with `Bun.serve`, rebuilding them on change through `watch`.
+ * Html pages get a live reload client, which swaps the stylesheets when only stylesheets changed and
+ * reloads the page otherwise.
+ */
+export async function serve(
+	config: Omit<BuildConfig, 'outdir'>,
+	options?: ServeOptions,
+): Promise<DevServer> {
+	const plugin = config.plugins?.find((plugin) => pluginStates.has(plugin));
+	const extensions =
+		(plugin && pluginStates.get(plugin)?.styleExtensions) ?? styleExtensions;
+	const outputs: Map<string, BuildArtifact> = new Map();
+	// replaced as a whole, so files that are no longer built aren't served anymore
+	const setOutputs = (artifacts: BuildArtifact[]) => {
+		outputs.clear();
+		for (const output of artifacts)
+			outputs.set(path.posix.join('/', output.path), output);
+	};
+
+	const watcher = await watch(
+		{ ...config, outdir: undefined },
+		{
+			debounce: options?.debounce,
+			onRebuild(result, changed) {
+				setOutputs(watcher.getOutputs());
+				const onlyStyles = changed.every((file) =>
+					extensions.includes(path.parse(file).ext),
+				);
+				server.publish(liveReloadPath, onlyStyles ? 'css' : 'reload');
+			},
+		},
+	);
+	setOutputs(watcher.getOutputs());
+
+	const server = Bun.serve({
+		port: options?.port ?? 3000,
+		hostname: options?.hostname,
+		async fetch(request, server) {
+			const { pathname } = new URL(request.url);
+			if (pathname === liveReloadPath) {
+				if (server.upgrade(request)) return;
+				return new Response('Expected a websocket', { status: 400 });
+			}
+
+			const output =
+				outputs.get(decodeURIComponent(pathname)) ??
+				outputs.get(path.posix.join(pathname, 'index.html'));
+			if (!output) return new Response('Not Found', { status: 404 });
+
+			const headers = {
+				'Content-Type': output.type,
+				'Cache-Control': 'no-store',
+			};
+			if (!htmlExtensionMatcher.test(output.path))
+				return new Response(output, { headers });
+			return new Response(await injectLiveReloadClient(await output.text()), {
+				headers,
+			});
+		},
+		websocket: {
+			open(ws) {
+				ws.subscribe(liveReloadPath);
+			},
+			message() {},
+		},
+	});
+
+	return {
+		server,
+		result: watcher.result,
+		async close() {
+			await watcher.close();
+			server.stop(true);
+		},
+	};
+}
+
 export default html;
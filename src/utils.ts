@@ -1,23 +1,93 @@
+import { existsSync } from 'node:fs';
 import path from 'node:path';
-import type { BuildArtifact, BunFile } from 'bun';
+import type {
+	BuildArtifact,
+	BunFile,
+	Import,
+	JavaScriptLoader,
+	Loader,
+} from 'bun';
+
+export type FileAttribute = {
+	name: string;
+	value: string;
+	/**
+	 * For attributes holding a list of image candidates (`srcset`, `imagesrcset`), the url of the
+	 * candidate within `value` that this file was referenced by.
+	 */
+	candidate?: string;
+};
+
+export type OutputImport = {
+	/** The specifier as written in the importing output. */
+	specifier: string;
+	/** The path of the imported output, before it is named. */
+	path: string;
+};
+
+export type SourceMap = {
+	version: number;
+	file?: string;
+	sourceRoot?: string;
+	sources: string[];
+	sourcesContent?: (string | null)[];
+	names: string[];
+	mappings: string;
+};
 
 export type FileDetails = {
-	attribute?: {
-		name: string;
-		value: string;
-	};
+	/**
+	 * Every attribute of the referencing element that points to this file.
+	 */
+	attributes?: FileAttribute[];
+	/**
+	 * The first of `attributes`.
+	 * @deprecated Use `attributes`, which holds every attribute referencing this file.
+	 */
+	attribute?: FileAttribute;
 	content?:
 		| Blob
 		| NodeJS.TypedArray
 		| ArrayBufferLike
 		| string
 		| Bun.BlobPart[];
+	/**
+	 * For inline `<script type="module">` blocks, the index of the block within its html file.
+	 */
+	inlineModule?: number;
+	/**
+	 * For bundled scripts, the other outputs of the same build they import.
+	 */
+	imports?: OutputImport[];
+	/**
+	 * Other source files the content was compiled from, like the partials of a sass file.
+	 */
+	dependencies?: string[];
+	/**
+	 * The source map of compiled content, with absolute source paths.
+	 */
+	sourceMap?: SourceMap;
 	kind: BuildArtifact['kind'];
 	hash: string;
 	originalPath: string | false;
 	htmlImporter: string;
+	/**
+	 * For chunks shared by the scripts of several pages, every html file importing them, `htmlImporter`
+	 * being the first.
+	 */
+	htmlImporters?: string[];
 };
 
+/**
+ * Whether the file belongs to the html file, shared chunks belonging to every page importing them.
+ */
+export function isImportedBy(details: FileDetails, htmlPath: string) {
+	return (
+		details.htmlImporter === htmlPath ||
+		details.htmlImporters?.includes(htmlPath) === true
+	);
+}
+
 const urlTester = /^(#|http[s]:\/\/|\/)/i;
 export function isURL(link: string) {
 	if (urlTester.test(link)) {
@@ -57,6 +127,19 @@ export function getLines(file: string, amount: number, end: number) {
 		.join('\n');
 }
 
+/**
+ * Removes the indentation shared by every non-empty line, for example from the content of an inline
+ * `<style>` block.
+ */
+export function dedent(text: string) {
+	const lines = text.split('\n');
+	const indents = lines
+		.filter((line) => line.trim())
+		.map((line) => line.match(/^\s*/)?.[0].length ?? 0);
+	const indent = indents.length > 0 ? Math.min(...indents) : 0;
+	return lines.map((line) => line.slice(indent)).join('\n');
+}
+
 export function changeFileExtension(filePath: string, newExtension: string) {
 	return path.format({ ...path.parse(filePath), base: '', ext: newExtension });
 }
@@ -83,14 +166,178 @@ export function findLastCommonPath(paths: string[]) {
 	return commonPath.join(path.sep);
 }
 
+/**
+ * Returns a pattern matching the path `Bun.build` gives the output of the script `entrypoint` with the
+ * `naming` template, relative to `root`.
+ */
+export function getOutputPathMatcher(
+	naming: string,
+	entrypoint: string,
+	root: string,
+) {
+	const { dir, name } = path.parse(entrypoint);
+	// the hash is unknown, so it is kept as a placeholder while the path is normalized
+	// bun drops the leading slash an empty `[dir]` leaves, like normalizing drops a leading `./`
+	const expected = path
+		.normalize(
+			naming
+				.replaceAll('[dir]', path.relative(root, dir))
+				.replaceAll('[name]', name)
+				.replaceAll('[ext]', 'js')
+				.replaceAll('[hash]', '\0'),
+		)
+		.replace(/^\/+/, '');
+	const source = expected
+		.split('\0')
+		.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+		.join('[a-z0-9]+');
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns the `node_modules` directories from `directory` up to the root, closest first.
+ */
+export function getNodeModulesPaths(directory: string) {
+	const paths: string[] = [];
+	let current = path.resolve(directory);
+	while (true) {
+		const nodeModules = path.join(current, 'node_modules');
+		if (existsSync(nodeModules)) paths.push(nodeModules);
+		const parent = path.dirname(current);
+		if (parent === current) return paths;
+		current = parent;
+	}
+}
+
 export function removeCommonPath(filePath: string, commonPath: string) {
 	return path.relative(commonPath, filePath);
 }
 
-export function attributeToSelector(
-	attribute: Exclude<FileDetails['attribute'], undefined>,
+/**
+ * Returns the query and/or hash trailing a path, for example `?v=2#icon` from `sprite.svg?v=2#icon`.
+ */
+export function getPathSuffix(pathString: string) {
+	const pathExtraTail = pathString.match(/[?#]/);
+	if (!pathExtraTail?.index) return '';
+	return pathString.substring(pathExtraTail.index);
+}
+
+const styleReferenceMatcher =
+	/(\/\*[\s\S]*?\*\/)|@import\s+(['"])(.*?)\2|url\(\s*(['"]?)(.*?)\4\s*\)/g;
+
+/**
+ * Calls `replacer` for every `url()` and `@import` reference inside a stylesheet, replacing the
+ * reference with the returned value. Comments are skipped, and returning `undefined` keeps the
+ * reference as is.
+ */
+export function replaceStyleReferences(
+	css: string,
+	replacer: (reference: string) => string | undefined,
+) {
+	return css.replace(
+		styleReferenceMatcher,
+		(match, comment, _importQuote, importPath, _urlQuote, urlPath) => {
+			if (comment) return match;
+			const reference: string = importPath ?? urlPath;
+			if (!reference) return match;
+			const replaced = replacer(reference);
+			if (replaced === undefined || replaced === reference) return match;
+			return match.replace(reference, () => replaced);
+		},
+	);
+}
+
+export function getStyleReferences(css: string) {
+	const references: string[] = [];
+	replaceStyleReferences(css, (reference) => {
+		references.push(reference);
+		return undefined;
+	});
+	return references;
+}
+
+export type SrcsetCandidate = {
+	url: string;
+	descriptor: string;
+};
+
+/**
+ * Parses a `srcset` like attribute value into its image candidates, following the parsing rules of
+ * the HTML spec, so urls containing commas (such as data urls) stay intact.
+ */
+export function parseSrcset(value: string) {
+	const candidates: SrcsetCandidate[] = [];
+	let position = 0;
+
+	while (position < value.length) {
+		while (position < value.length && /[\s,]/.test(value[position])) position++;
+		if (position >= value.length) break;
+
+		let url = '';
+		while (position < value.length && !/\s/.test(value[position])) {
+			url += value[position];
+			position++;
+		}
+
+		let descriptor = '';
+		if (url.endsWith(',')) {
+			url = url.replace(/,+$/, '');
+		} else {
+			let inParens = false;
+			while (position < value.length) {
+				const char = value[position];
+				if (char === '(') inParens = true;
+				else if (char === ')') inParens = false;
+				else if (char === ',' && !inParens) break;
+				descriptor += char;
+				position++;
+			}
+		}
+
+		candidates.push({ url, descriptor: descriptor.trim() });
+	}
+
+	return candidates;
+}
+
+export function stringifySrcset(candidates: SrcsetCandidate[]) {
+	return candidates
+		.map(({ url, descriptor }) => (descriptor ? `${url} ${descriptor}` : url))
+		.join(', ');
+}
+
+export type ContentSecurityPolicy = { [directive: string]: string[] };
+
+/**
+ * Parses a Content-Security-Policy into its directives and their source lists.
+ */
+export function parseContentSecurityPolicy(policy: string) {
+	const directives: ContentSecurityPolicy = {};
+	for (const directive of policy.split(';')) {
+		const [name, ...sources] = directive.trim().split(/\s+/);
+		// the first occurrence of a directive wins, like in browsers
+		if (name && !directives[name.toLowerCase()])
+			directives[name.toLowerCase()] = sources;
+	}
+	return directives;
+}
+
+export function stringifyContentSecurityPolicy(
+	directives: ContentSecurityPolicy,
 ) {
-	return `*[${attribute.name}="${attribute.value}"]`;
+	return Object.entries(directives)
+		.map(([name, sources]) => [name, ...sources].join(' '))
+		.join('; ');
+}
+
+export function attributeToSelector(attributes: FileAttribute[]) {
+	const selectors = attributes.map((attribute) => {
+		// namespaced attributes like `xlink:href` need their colon escaped
+		const name = attribute.name.replace(/[^\w-]/g, '\\$&');
+		const value = attribute.value.replace(/["\\]/g, '\\$&');
+		return `[${name}="${value}"]`;
+	});
+	return `*${[...new Set(selectors)].join('')}`;
 }
 
 export function contentToString(content: FileDetails['content']) {
@@ -104,13 +351,113 @@ export function contentToString(content: FileDetails['content']) {
 	return new TextDecoder().decode(content);
 }
 
+const transpilerLoaders: { [extension: string]: JavaScriptLoader } = {
+	'.js': 'js',
+	'.mjs': 'js',
+	'.cjs': 'js',
+	'.jsx': 'jsx',
+	'.ts': 'ts',
+	'.mts': 'ts',
+	'.cts': 'ts',
+	'.tsx': 'tsx',
+};
+
+/**
+ * Returns the local files `filePath` imports, directly or through other local files. Packages are
+ * left out, as they don't change while developing.
+ */
+export async function getImportedFiles(
+	filePath: string,
+	content?: string,
+	found: Set<string> = new Set(),
+) {
+	const loader = transpilerLoaders[path.parse(filePath).ext];
+	if (!loader) return found;
+
+	let imports: Import[];
+	try {
+		imports = new Bun.Transpiler({ loader }).scanImports(
+			content ?? (await Bun.file(filePath).text()),
+		);
+	} catch {
+		return found;
+	}
+
+	for (const { path: specifier } of imports) {
+		if (isURL(specifier)) continue;
+		let resolved: string;
+		try {
+			resolved = Bun.resolveSync(specifier, path.dirname(filePath));
+		} catch {
+			continue;
+		}
+		if (
+			found.has(resolved) ||
+			resolved.split(path.sep).includes('node_modules')
+		)
+			continue;
+		found.add(resolved);
+		await getImportedFiles(resolved, undefined, found);
+	}
+
+	return found;
+}
+
+const extensionLoaders: { [extension: string]: Loader } = {
+	'.js': 'js',
+	'.mjs': 'js',
+	'.cjs': 'js',
+	'.css': 'css',
+	'.json': 'json',
+	'.toml': 'toml',
+	'.txt': 'text',
+	'.wasm': 'wasm',
+};
+
+export function getLoader(filePath: string): Loader {
+	return extensionLoaders[path.parse(filePath).ext] ?? 'file';
+}
+
+/**
+ * A file written by `bun-plugin-html`, shaped like the artifacts `Bun.build` returns.
+ */
+export class OutputArtifact extends Blob implements BuildArtifact {
+	path: string;
+	loader: Loader;
+	hash: string | null;
+	kind: BuildArtifact['kind'];
+	sourcemap: BuildArtifact | null = null;
+
+	constructor(
+		filePath: string,
+		content:
+			| Blob
+			| NodeJS.TypedArray
+			| ArrayBufferLike
+			| string
+			| Bun.BlobPart[],
+		details: Pick<FileDetails, 'kind' | 'hash'>,
+	) {
+		super((Array.isArray(content) ? content : [content]) as BlobPart[], {
+			type: Bun.file(filePath).type,
+		});
+		this.path = filePath;
+		this.loader = getLoader(filePath);
+		this.hash = details.hash;
+		this.kind = details.kind;
+	}
+}
+
 export class Processor {
-	#files: Map<string, FileDetails> = new Map();
+	// a file referenced by several pages has the details of each reference
+	#files: Map<string, FileDetails[]> = new Map();
 
 	constructor(inputs: Map<BunFile, FileDetails>) {
 		for (const [file, details] of inputs) {
 			if (!file.name) continue;
-			this.#files.set(file.name, details);
+			const references = this.#files.get(file.name);
+			if (references) references.push(details);
+			else this.#files.set(file.name, [details]);
 		}
 	}
 
@@ -124,7 +471,7 @@ export class Processor {
 			extension: string;
 		}[] = [];
 
-		for (const [filepath, details] of this.#files) {
+		for (const [filepath, [details]] of this.#files) {
 			const extension = path.parse(filepath).ext;
 			fileList.push({
 				path: filepath,
@@ -145,20 +492,25 @@ export class Processor {
 	 */
 	writeFile(filepath: string, content: string) {
 		if (!path.isAbsolute(filepath)) throw new Error('Path MUST be absolute');
-		if (this.#files.has(filepath)) {
-			const fileDetails = this.#files.get(filepath) as FileDetails;
-			this.#files.set(filepath, {
-				...fileDetails,
-				content,
-			});
+		const references = this.#files.get(filepath);
+		if (references) {
+			this.#files.set(
+				filepath,
+				references.map((details) => ({
+					...details,
+					content,
+				})),
+			);
 		} else {
-			this.#files.set(filepath, {
-				kind: 'chunk',
-				hash: Bun.hash(content, 1).toString(16).slice(0, 8),
-				content,
-				originalPath: filepath,
-				htmlImporter: '',
-			});
+			this.#files.set(filepath, [
+				{
+					kind: 'chunk',
+					hash: Bun.hash(content, 1).toString(16).slice(0, 8),
+					content,
+					originalPath: filepath,
+					htmlImporter: '',
+				},
+			]);
 		}
 	}
 
@@ -168,10 +520,124 @@ export class Processor {
 	export() {
 		const files: Map<BunFile, FileDetails> = new Map();
 
-		for (const [filepath, details] of this.#files) {
-			files.set(Bun.file(filepath), details);
+		for (const [filepath, references] of this.#files) {
+			for (const details of references) files.set(Bun.file(filepath), details);
 		}
 
 		return files;
 	}
 }
+
+export type IntegrityAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+/**
+ * Returns the Subresource Integrity metadata of `content`, e.g. `sha384-<base64 digest>`.
+ */
+export async function getIntegrity(
+	content: Blob,
+	algorithm: IntegrityAlgorithm = 'sha384',
+) {
+	const hasher = new Bun.CryptoHasher(algorithm);
+	hasher.update(await content.arrayBuffer());
+	return `${algorithm}-${hasher.digest('base64')}`;
+}
+
+/**
+ * Returns a source map pointing every line of `content` to the same line of `source`, for stylesheets
+ * that aren't compiled from another language.
+ */
+export function getLineSourceMap(
+	content: string,
+	source: string,
+	sourceContent = content,
+): SourceMap {
+	const lines = content.split('\n').length;
+	return {
+		version: 3,
+		sources: [source],
+		sourcesContent: [sourceContent],
+		names: [],
+		mappings: ['AAAA', ...Array(lines - 1).fill('AACA')].join(';'),
+	};
+}
+
+/**
+ * Makes the sources of `sourceMap` relative to `mapPath`, where the map of `filePath` is written.
+ * Sources are resolved with `resolveSource` first, they are expected to be absolute otherwise.
+ */
+export function relocateSourceMap(
+	sourceMap: SourceMap,
+	mapPath: string,
+	filePath: string,
+	resolveSource = (source: string) => source,
+): SourceMap {
+	const { sourceRoot, ...rest } = sourceMap;
+	const mapDirectory = path.dirname(mapPath);
+	return {
+		...rest,
+		file: path.relative(mapDirectory, filePath).replaceAll(path.sep, '/'),
+		sources: sourceMap.sources.map((source) =>
+			path
+				.relative(mapDirectory, resolveSource(source))
+				.replaceAll(path.sep, '/'),
+		),
+	};
+}
+
+const sourceMapCommentMatcher =
+	/\n?(?:\/\/|\/\*)# sourceMappingURL=(\S+?)(?: \*\/)?\s*$/;
+
+/**
+ * Splits the trailing `sourceMappingURL` comment off `content`, returning the content without it and
+ * the url it pointed to.
+ */
+export function removeSourceMapComment(content: string) {
+	const match = content.match(sourceMapCommentMatcher);
+	if (!match || match.index === undefined) return { content, url: undefined };
+	return { content: content.slice(0, match.index), url: match[1] };
+}
+
+/**
+ * Appends a `sourceMappingURL` comment for `url` to `content`, in the comment syntax of its extension.
+ */
+export function addSourceMapComment(
+	content: string,
+	url: string,
+	extension: string,
+) {
+	const comment = /\.(c|s[ac])ss$/i.test(extension)
+		? `/*# sourceMappingURL=${url} */`
+		: `//# sourceMappingURL=${url}`;
+	return `${content.trimEnd()}\n${comment}\n`;
+}
+
+export function sourceMapToDataURL(sourceMap: SourceMap) {
+	return `data:application/json;base64,${Buffer.from(JSON.stringify(sourceMap)).toString('base64')}`;
+}
+
+export function dataURLToSourceMap(url: string): SourceMap | undefined {
+	const match = url.match(/^data:application\/json[^,]*;base64,(.*)$/);
+	if (!match) return undefined;
+	return JSON.parse(Buffer.from(match[1], 'base64').toString('utf8'));
+}
+
+/**
+ * Returns `content` as a data URI of the mime `type`. Svg images are URL-encoded, which keeps them
+ * smaller than base64, other files are base64-encoded.
+ */
+export function toDataURI(content: ArrayBuffer, type: string) {
+	const mimeType = type.split(';')[0];
+	if (mimeType === 'image/svg+xml') {
+		// parentheses and quotes are encoded too, so the uri can be used in an unquoted css `url()`
+		const encoded = encodeURIComponent(new TextDecoder().decode(content))
+			.replace(
+				/['()]/g,
+				(character) => `%${character.charCodeAt(0).toString(16).toUpperCase()}`,
+			)
+			.replace(/%(3D|3A|2F)/g, (match, code: string) =>
+				String.fromCharCode(Number.parseInt(code, 16)),
+			);
+		return `data:${mimeType},${encoded}`;
+	}
+	return `data:${mimeType};base64,${Buffer.from(content).toString('base64')}`;
+}
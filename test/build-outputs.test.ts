@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html, { build } from '../src/index';
+import { emptyDir } from './utils';
+
+describe('Testing Build Outputs', async () => {
+	const generationDirectory = './test/generation/build-outputs';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	const result = await build({
+		entrypoints: ['./test/starting/index.html'],
+		outdir: generationDirectory,
+		plugins: [html()],
+		naming: '[dir]/[name].[ext]',
+	});
+
+	const getOutput = (file: string) =>
+		result.outputs.find(
+			(output) => output.path === path.resolve(generationDirectory, file),
+		);
+
+	test('Build succeeds without html entrypoint errors', () => {
+		expect(result.success).toBeTrue();
+		expect(result.logs).toHaveLength(0);
+	});
+
+	test('Html entrypoint is returned', async () => {
+		const output = getOutput('index.html');
+		expect(output?.kind).toBe('entry-point');
+		expect(output?.loader).toBe('file');
+		expect(output?.hash).toBeString();
+		expect(await output?.text()).toBe(
+			await Bun.file(path.resolve(generationDirectory, 'index.html')).text(),
+		);
+	});
+
+	test('Scripts, stylesheets and assets are returned', () => {
+		expect(getOutput('main.js')?.loader).toBe('js');
+		expect(getOutput('js/secondary.js')?.loader).toBe('js');
+		expect(getOutput('main.css')?.loader).toBe('css');
+		expect(getOutput('images/favicon.ico')?.kind).toBe('asset');
+	});
+
+	test('Every output is written to the outdir', () => {
+		for (const output of result.outputs) {
+			expect(fs.existsSync(output.path)).toBeTrue();
+		}
+	});
+});
+
+describe('Testing Build Outputs of Mixed Entrypoints', async () => {
+	const generationDirectory = './test/generation/build-outputs-mixed';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	const entrypoints = [
+		'./test/starting/index.html',
+		'./test/build-outputs/worker.ts',
+	];
+	const result = await build({
+		entrypoints,
+		outdir: generationDirectory,
+		plugins: [html()],
+		naming: '[dir]/[name].[ext]',
+	});
+
+	test('Build succeeds and returns both entrypoints', () => {
+		expect(result.success).toBeTrue();
+		expect(result.outputs.map((output) => output.path)).toContainValues([
+			path.resolve(generationDirectory, 'index.html'),
+			path.resolve(generationDirectory, 'worker.js'),
+		]);
+	});
+
+	test('The entrypoints passed in are left untouched', () => {
+		expect(entrypoints).toEqual([
+			'./test/starting/index.html',
+			'./test/build-outputs/worker.ts',
+		]);
+	});
+});
@@ -0,0 +1,3 @@
+const greet = (name: string) => `Hello ${name}`;
+
+self.postMessage(greet('worker'));
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html from '../src/index';
+import { emptyDir } from './utils';
+
+function getScripts(directory: string): string[] {
+	return fs
+		.readdirSync(directory, { recursive: true, encoding: 'utf8' })
+		.filter((file) => file.endsWith('.js'))
+		.map((file) => path.join(directory, file));
+}
+
+function getRelativeImports(script: string) {
+	return new Bun.Transpiler({ loader: 'js' })
+		.scanImports(fs.readFileSync(script, 'utf8'))
+		.filter(({ path }) => path.startsWith('.'));
+}
+
+describe('Testing Chunk Imports', async () => {
+	const generationDirectory = './test/generation/chunk-imports';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	for (const minify of [false, true]) {
+		const outdir = path.join(
+			generationDirectory,
+			minify ? 'minify' : 'default',
+		);
+		await Bun.build({
+			entrypoints: [
+				'./test/chunk-imports/index.html',
+				'./test/chunk-imports/pages/page.html',
+			],
+			outdir,
+			plugins: [html()],
+			naming: {
+				chunk: '[dir]/[name]-[hash].[ext]',
+			},
+			splitting: true,
+			minify,
+		});
+
+		test(`Every import points at an emitted file${minify ? ' when minified' : ''}`, () => {
+			const scripts = getScripts(outdir);
+			const kinds = new Set<string>();
+			for (const script of scripts) {
+				for (const { path: specifier, kind } of getRelativeImports(script)) {
+					kinds.add(kind);
+					expect(
+						fs.existsSync(path.resolve(path.dirname(script), specifier)),
+					).toBeTrue();
+				}
+			}
+			expect([...kinds].sort()).toEqual(['dynamic-import', 'import-statement']);
+		});
+	}
+
+	test('Inline modules import the chunks from their page', () => {
+		const page = fs.readFileSync(
+			path.join(generationDirectory, 'default/pages/page.html'),
+			'utf8',
+		);
+		const src = page.match(/<script type="module" src="([^"]+)">/)?.[1];
+		expect(src).toBeDefined();
+		const script = path.join(
+			generationDirectory,
+			'default/pages',
+			src as string,
+		);
+		expect(
+			getRelativeImports(script)
+				.map(({ kind }) => kind)
+				.sort(),
+		).toEqual(['dynamic-import', 'import-statement']);
+	});
+});
@@ -0,0 +1,6 @@
+import { greet } from './shared';
+
+export * from './shared';
+
+greet('main');
+import('./lazy').then((lazy) => lazy.run());
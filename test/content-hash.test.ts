@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html from '../src/index';
+import { emptyDir } from './utils';
+
+describe('Testing Content Hashes', async () => {
+	const generationDirectory = './test/generation/content-hash';
+	const sourceDirectory = path.join(generationDirectory, 'src');
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+	fs.cpSync('./test/content-hash', sourceDirectory, { recursive: true });
+
+	const build = async (outdir: string) => {
+		await Bun.build({
+			entrypoints: [
+				path.join(sourceDirectory, 'one.html'),
+				path.join(sourceDirectory, 'two.html'),
+			],
+			outdir: path.join(generationDirectory, outdir),
+			naming: {
+				entry: '[dir]/[name].[ext]',
+				chunk: '[dir]/[name]-[hash].[ext]',
+				asset: '[dir]/[name]-[hash].[ext]',
+			},
+			plugins: [html({ naming: { css: '[dir]/[name]-[hash].[ext]' } })],
+		});
+		return {
+			images: fs.readdirSync(path.join(generationDirectory, outdir, 'images')),
+			styles: fs.readdirSync(path.join(generationDirectory, outdir, 'styles')),
+			scripts: fs
+				.readdirSync(path.join(generationDirectory, outdir), {
+					recursive: true,
+					encoding: 'utf8',
+				})
+				.filter((file) => file.endsWith('.js'))
+				.sort(),
+		};
+	};
+
+	const first = await build('first');
+	fs.writeFileSync(
+		path.join(sourceDirectory, 'one.html'),
+		fs
+			.readFileSync(path.join(sourceDirectory, 'one.html'), 'utf-8')
+			.replace('<h1>One</h1>', '<h1>Page One</h1>'),
+	);
+	const second = await build('second');
+	fs.writeFileSync(
+		path.join(sourceDirectory, 'images/logo.svg'),
+		fs
+			.readFileSync(path.join(sourceDirectory, 'images/logo.svg'), 'utf-8')
+			.replace('#3b82f6', '#ef4444'),
+	);
+	const third = await build('third');
+
+	test('Assets shared by several pages get one name', () => {
+		expect(first.images).toHaveLength(1);
+		expect(first.styles).toHaveLength(1);
+	});
+
+	test('Asset hashes come from their own content', async () => {
+		const hash = Bun.hash(
+			await Bun.file('./test/content-hash/images/logo.svg').arrayBuffer(),
+			1,
+		)
+			.toString(16)
+			.slice(0, 8);
+		expect(first.images).toEqual([`logo-${hash}.svg`]);
+	});
+
+	test('Editing a page keeps the names of its assets', () => {
+		expect(second.images).toEqual(first.images);
+		expect(second.styles).toEqual(first.styles);
+	});
+
+	test('Scripts are named after their content, not their build', () => {
+		expect(first.scripts).toHaveLength(2);
+		expect(first.scripts).toContainEqual(
+			expect.stringMatching(/^one-module-0-[0-9a-f]{8}\.js$/),
+		);
+		expect(second.scripts).toEqual(first.scripts);
+		expect(
+			fs.readFileSync(
+				path.join(generationDirectory, 'first', first.scripts[0]),
+				'utf8',
+			),
+		).not.toContain('bun-build-');
+	});
+
+	test('Editing a referenced asset renames the stylesheet referencing it', () => {
+		expect(third.images).not.toEqual(second.images);
+		expect(third.styles).not.toEqual(second.styles);
+		const stylesheet = fs.readFileSync(
+			path.join(generationDirectory, 'third/styles', third.styles[0]),
+			'utf-8',
+		);
+		expect(stylesheet).toContain(third.images[0]);
+	});
+});
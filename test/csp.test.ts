@@ -0,0 +1,130 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html, { type Manifest } from '../src/index';
+import { emptyDir } from './utils';
+
+async function getPolicy(htmlPath: string) {
+	const blocks: string[] = [];
+	const policies: string[] = [];
+	new HTMLRewriter()
+		.on('meta[http-equiv="Content-Security-Policy" i]', {
+			element(el) {
+				policies.push(el.getAttribute('content') as string);
+			},
+		})
+		.on('script:not([src]), style', {
+			element() {
+				blocks.push('');
+			},
+			text(text) {
+				blocks[blocks.length - 1] += text.text;
+			},
+		})
+		.transform(await Bun.file(htmlPath).text());
+	const hashes = blocks.map(
+		(block) =>
+			`'sha256-${new Bun.CryptoHasher('sha256').update(block).digest('base64')}'`,
+	);
+	return { policies, hashes };
+}
+
+describe('Testing Content Security Policy', async () => {
+	const generationDirectory = './test/generation/csp';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/starting/index.html'],
+		outdir: path.join(generationDirectory, 'inline'),
+		plugins: [html({ inline: true, csp: true, manifest: true })],
+	});
+	await Bun.build({
+		entrypoints: ['./test/csp/index.html'],
+		outdir: path.join(generationDirectory, 'existing'),
+		plugins: [html({ csp: true })],
+	});
+	await Bun.build({
+		entrypoints: [
+			'./test/csp/headless.html',
+			'./test/csp/lowercase.html',
+			'./test/csp/cdn.html',
+		],
+		outdir: path.join(generationDirectory, 'pages'),
+		plugins: [html({ csp: true })],
+	});
+	await Bun.build({
+		entrypoints: ['./test/csp/index.html'],
+		outdir: path.join(generationDirectory, 'header'),
+		plugins: [html({ csp: { meta: false }, manifest: true })],
+	});
+
+	test('A policy with the hashes of the inlined files is injected', async () => {
+		const directory = path.join(generationDirectory, 'inline');
+		const { policies, hashes } = await getPolicy(
+			path.join(directory, 'index.html'),
+		);
+		expect(hashes).toHaveLength(4);
+		expect(policies).toHaveLength(1);
+		for (const hash of hashes) expect(policies[0]).toContain(hash);
+		expect(policies[0]).toContain("script-src 'self' 'sha256-");
+
+		const manifest: Manifest = await Bun.file(
+			path.join(directory, 'manifest.json'),
+		).json();
+		expect(manifest['index.html'].csp).toBe(policies[0]);
+	});
+
+	test('An existing policy is updated', async () => {
+		const { policies, hashes } = await getPolicy(
+			path.join(generationDirectory, 'existing/index.html'),
+		);
+		expect(policies).toEqual([
+			`default-src 'self' https://cdn.example.com; img-src *; style-src 'self' https://cdn.example.com ${hashes[0]}; script-src 'self' https://cdn.example.com ${hashes[1]}`,
+		]);
+	});
+
+	test('Pages without a head get one with the policy', async () => {
+		const content = await Bun.file(
+			path.join(generationDirectory, 'pages/headless.html'),
+		).text();
+		const { policies, hashes } = await getPolicy(
+			path.join(generationDirectory, 'pages/headless.html'),
+		);
+		expect(content).toContain('<html lang="en"><head><meta http-equiv=');
+		expect(policies).toEqual([`script-src 'self' ${hashes[0]}`]);
+	});
+
+	test('Policies are found whatever the case of http-equiv', async () => {
+		const { policies, hashes } = await getPolicy(
+			path.join(generationDirectory, 'pages/lowercase.html'),
+		);
+		expect(policies).toEqual([
+			`default-src 'self'; script-src 'self' ${hashes[0]}`,
+		]);
+	});
+
+	test('New directives keep allowing the scripts and stylesheets of other origins', async () => {
+		const { policies, hashes } = await getPolicy(
+			path.join(generationDirectory, 'pages/cdn.html'),
+		);
+		expect(policies).toEqual([
+			`style-src 'self' https://cdn.example.com ${hashes[0]}; script-src 'self' scripts.example.com https://cdn.example.com ${hashes[1]}`,
+		]);
+	});
+
+	test('The policy can be left out of the html', async () => {
+		const directory = path.join(generationDirectory, 'header');
+		expect(await Bun.file(path.join(directory, 'index.html')).text()).toBe(
+			await Bun.file('./test/csp/index.html').text(),
+		);
+
+		const manifest: Manifest = await Bun.file(
+			path.join(directory, 'manifest.json'),
+		).json();
+		const { hashes } = await getPolicy('./test/csp/index.html');
+		expect(manifest['index.html'].csp).toBe(
+			`default-src 'self' https://cdn.example.com; img-src *; style-src 'self' https://cdn.example.com ${hashes[0]}; script-src 'self' https://cdn.example.com ${hashes[1]}`,
+		);
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import html from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+describe('Testing Generation of Stylesheet References', async () => {
+	const generationDirectory = './test/generation/css-references';
+	const expectedDirectory = './test/expected/css-references';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/css-references/index.html'],
+		outdir: generationDirectory,
+		plugins: [
+			html({
+				naming: {
+					css: 'css/[name]-[hash].[ext]',
+				},
+			}),
+		],
+		naming: {
+			entry: '[dir]/[name].[ext]',
+			asset: 'assets/[name]-[hash].[ext]',
+		},
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'css/main-902546b9.css',
+	);
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'css/typography-2b9eb9d4.css',
+	);
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'assets/background-5fe40cad.svg',
+	);
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'assets/inter-3533f43e.woff2',
+	);
+});
+
+describe('Testing Generation of Inlined Stylesheet References', async () => {
+	const generationDirectory = './test/generation/css-references-inline';
+	const expectedDirectory = './test/expected/css-references-inline';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/css-references/index.html'],
+		outdir: generationDirectory,
+		plugins: [
+			html({
+				inline: {
+					css: true,
+				},
+				naming: {
+					css: 'css/[name]-[hash].[ext]',
+				},
+			}),
+		],
+		naming: {
+			entry: '[dir]/[name].[ext]',
+			asset: 'assets/[name]-[hash].[ext]',
+		},
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+});
+
+describe('Testing Inlined Stylesheet Imports with experimentalCss', async () => {
+	const generationDirectory = './test/generation/css-references-bundled';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/css-references/index.html'],
+		outdir: generationDirectory,
+		experimentalCss: true,
+		plugins: [
+			html({
+				inline: {
+					css: true,
+				},
+				naming: {
+					css: 'css/[name]-[hash].[ext]',
+				},
+			}),
+		],
+		naming: {
+			entry: '[dir]/[name].[ext]',
+			asset: 'assets/[name]-[hash].[ext]',
+		},
+	});
+
+	test('Imported stylesheets are inlined the same way', () => {
+		expect(fs.readFileSync(`${generationDirectory}/index.html`, 'utf8')).toBe(
+			fs.readFileSync(
+				'./test/expected/css-references-inline/index.html',
+				'utf8',
+			),
+		);
+		expect(fs.existsSync(`${generationDirectory}/css`)).toBeFalse();
+	});
+});
@@ -0,0 +1,2 @@
+// test/includes/scripts/main.ts
+console.log("Included");
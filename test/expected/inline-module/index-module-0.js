@@ -0,0 +1,12 @@
+// test/inline-module/lib/greet.ts
+var greet = (name) => `Hello from ${name}!`;
+
+// test/inline-module/app.ts
+function init(target) {
+  const element = document.querySelector(target);
+  if (element)
+    element.innerHTML = greet("inline module");
+}
+
+// ../../tmp/bun-build-8J5Ge7/index-module-0.ts
+init("#target");
@@ -0,0 +1,2 @@
+// test/layouts/scripts/main.ts
+console.log("Layouts");
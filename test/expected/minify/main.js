@@ -1 +1 @@
-function o(){console.log("from js/index.ts")}console.log("Running JS for browser");o();document.querySelector("#js-target").innerHTML="Changed!";
+var m=Object.create;var{getPrototypeOf:c,defineProperty:t,getOwnPropertyNames:g}=Object;var i=Object.prototype.hasOwnProperty;var l=(o,r,e)=>{e=o!=null?m(c(o)):{};let n=r||!o||!o.__esModule?t(e,"default",{value:o,enumerable:!0}):e;for(let s of g(o))if(!i.call(n,s))t(n,s,{get:()=>o[s],enumerable:!0});return n};var u=(o,r)=>()=>(r||o((r={exports:{}}).exports,r),r.exports);function f(){console.log("from js/index.ts")}console.log("Running JS for browser");f();document.querySelector("#js-target").innerHTML="Changed!";
@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import html, { buildInMemory } from '../src/index';
+
+describe('Testing In Memory Build', async () => {
+	const startingDirectory = './test/starting';
+	const before = fs.readdirSync(startingDirectory, { recursive: true });
+
+	const outputs = await buildInMemory({
+		entrypoints: [`${startingDirectory}/index.html`],
+		plugins: [html()],
+		naming: '[dir]/[name].[ext]',
+	});
+
+	test('Nothing is written next to the sources', () => {
+		expect(fs.readdirSync(startingDirectory, { recursive: true })).toEqual(
+			before,
+		);
+	});
+
+	test('Html entrypoint is returned', async () => {
+		const content = await outputs.get('./index.html')?.text();
+		expect(content).toContain('<script src="main.js"></script>');
+		expect(content).toContain('href="main.css"');
+	});
+
+	test('Scripts, stylesheets and assets are returned', async () => {
+		expect(await outputs.get('./main.js')?.text()).toContain(
+			'Running JS for browser',
+		);
+		expect(await outputs.get('./main.css')?.text()).toContain(
+			'background-color',
+		);
+		expect(outputs.get('./images/favicon.ico')?.size).toBe(
+			Bun.file(`${startingDirectory}/images/favicon.ico`).size,
+		);
+	});
+});
@@ -0,0 +1,38 @@
+import { describe } from 'bun:test';
+import fs from 'node:fs';
+import html from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+describe('Testing Generation of Include Attributes', async () => {
+	const generationDirectory = './test/generation/include-attributes';
+	const expectedDirectory = './test/expected/include-attributes';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/include-attributes/index.html'],
+		outdir: generationDirectory,
+		plugins: [
+			html({
+				includeAttributes: {
+					use: ['href', 'xlink:href'],
+					'[data-bg]': ['data-bg'],
+					'meta[property="og:image"]': ['content'],
+				},
+			}),
+		],
+		naming: {
+			entry: '[dir]/[name].[ext]',
+			asset: 'static/[name].[ext]',
+		},
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+	testIfFileExists(generationDirectory, expectedDirectory, 'static/icons.svg');
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'static/background.svg',
+	);
+	testIfFileExists(generationDirectory, expectedDirectory, 'static/share.svg');
+});
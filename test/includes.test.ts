@@ -0,0 +1,70 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { BuildOutput } from 'bun';
+import html, { watch } from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+describe('Testing Includes', async () => {
+	const generationDirectory = './test/generation/includes';
+	const expectedDirectory = './test/expected/includes';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/includes/index.html'],
+		outdir: generationDirectory,
+		naming: '[dir]/[name].[ext]',
+		plugins: [html({ suppressErrors: true })],
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+	testIfFileExists(generationDirectory, expectedDirectory, 'images/logo.svg');
+	testIfFileExists(generationDirectory, expectedDirectory, 'styles/main.css');
+	testIfFileExists(generationDirectory, expectedDirectory, 'scripts/main.js');
+});
+
+describe('Testing Rebuilds of Included Files', async () => {
+	const generationDirectory = './test/generation/includes-watch';
+	const sourceDirectory = path.join(generationDirectory, 'src');
+	const outputDirectory = path.join(generationDirectory, 'dist');
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+	fs.cpSync('./test/includes', sourceDirectory, { recursive: true });
+
+	let onRebuild: (result: BuildOutput) => void = () => {};
+	const watcher = await watch(
+		{
+			entrypoints: [path.join(sourceDirectory, 'index.html')],
+			outdir: outputDirectory,
+			naming: '[dir]/[name].[ext]',
+			plugins: [html({ suppressErrors: true })],
+		},
+		{
+			debounce: 10,
+			onRebuild(result) {
+				onRebuild(result);
+			},
+		},
+	);
+	afterAll(() => watcher.close());
+
+	test('Nested includes rebuild the html file including them', async () => {
+		const rebuilt = new Promise<BuildOutput>((resolve) => {
+			onRebuild = resolve;
+		});
+		fs.writeFileSync(
+			path.join(sourceDirectory, 'partials/nav.html'),
+			'<nav>\n\t<a href="/contact.html">Contact</a>\n</nav>\n',
+		);
+		const result = await rebuilt;
+		expect(
+			result.outputs.map((output) =>
+				path.relative(outputDirectory, output.path),
+			),
+		).toContain('index.html');
+		expect(
+			fs.readFileSync(path.join(outputDirectory, 'index.html'), 'utf8'),
+		).toContain('<a href="/contact.html">Contact</a>');
+	});
+});
@@ -0,0 +1,45 @@
+import { describe } from 'bun:test';
+import fs from 'node:fs';
+import html from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+describe('Testing Generation of Inline Blocks', async () => {
+	const generationDirectory = './test/generation/inline-blocks';
+	const expectedDirectory = './test/expected/inline-blocks';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/inline-blocks/index.html'],
+		outdir: generationDirectory,
+		plugins: [html()],
+		naming: '[dir]/[name].[ext]',
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+});
+
+describe('Testing Generation of Minified Inline Blocks', async () => {
+	const generationDirectory = './test/generation/inline-blocks-minify';
+	const expectedDirectory = './test/expected/inline-blocks-minify';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/inline-blocks/index.html'],
+		outdir: generationDirectory,
+		plugins: [
+			html({
+				minifyOptions: {
+					minifyHTML: false,
+					minifyCSS: {},
+					minifyJS: {},
+				},
+			}),
+		],
+		naming: '[dir]/[name].[ext]',
+		minify: true,
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+});
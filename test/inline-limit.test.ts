@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html from '../src/index';
+import { emptyDir, testFileDoesntExist, testIfFileExists } from './utils';
+
+describe('Testing Inline Limit', async () => {
+	const generationDirectory = './test/generation/inline-limit';
+	const expectedDirectory = './test/expected/inline-limit';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/inline-limit/index.html'],
+		outdir: path.join(generationDirectory, 'all'),
+		plugins: [html({ inlineLimit: 1024 })],
+	});
+	await Bun.build({
+		entrypoints: ['./test/inline-limit/index.html'],
+		outdir: path.join(generationDirectory, 'svg'),
+		plugins: [html({ inlineLimit: { '.svg': 1024 } })],
+	});
+
+	const allDirectory = path.join(generationDirectory, 'all');
+	testIfFileExists(allDirectory, expectedDirectory, 'index.html');
+	testIfFileExists(allDirectory, expectedDirectory, 'styles/main.css');
+	testFileDoesntExist(allDirectory, 'images/dot.svg');
+	testFileDoesntExist(allDirectory, 'images/pixel.png');
+
+	test('Larger assets and svg sprites are still written', () => {
+		expect(fs.existsSync(path.join(allDirectory, 'images/pattern.svg'))).toBe(
+			true,
+		);
+		expect(fs.existsSync(path.join(allDirectory, 'images/sprite.svg'))).toBe(
+			true,
+		);
+	});
+
+	test('Limits by extension only embed those extensions', () => {
+		const directory = path.join(generationDirectory, 'svg');
+		const page = fs.readFileSync(path.join(directory, 'index.html'), 'utf8');
+		expect(page).toContain('src="data:image/svg+xml,');
+		expect(page).toContain('href="images/pixel.png"');
+		expect(fs.existsSync(path.join(directory, 'images/pixel.png'))).toBe(true);
+		expect(fs.existsSync(path.join(directory, 'images/dot.svg'))).toBe(false);
+	});
+});
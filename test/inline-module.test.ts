@@ -0,0 +1,37 @@
+import { describe } from 'bun:test';
+import fs from 'node:fs';
+import html from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+describe('Testing Generation of Inline Modules', async () => {
+	const generationDirectory = './test/generation/inline-module';
+	const expectedDirectory = './test/expected/inline-module';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/inline-module/index.html'],
+		outdir: generationDirectory,
+		plugins: [html()],
+		naming: '[dir]/[name].[ext]',
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+	testIfFileExists(generationDirectory, expectedDirectory, 'index-module-0.js');
+});
+
+describe('Testing Generation of Inlined Inline Modules', async () => {
+	const generationDirectory = './test/generation/inline-module-inline';
+	const expectedDirectory = './test/expected/inline-module-inline';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/inline-module/index.html'],
+		outdir: generationDirectory,
+		plugins: [html({ inline: { js: true } })],
+		naming: '[dir]/[name].[ext]',
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+});
@@ -0,0 +1,6 @@
+import { greet } from './lib/greet';
+
+export function init(target: string) {
+	const element = document.querySelector(target);
+	if (element) element.innerHTML = greet('inline module');
+}
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html from '../src/index';
+import { emptyDir } from './utils';
+
+async function getReferences(htmlPath: string) {
+	const references: { [name: string]: Record<string, string | null> } = {};
+	new HTMLRewriter()
+		.on('script[src], link[href]', {
+			element(el) {
+				references[
+					(el.getAttribute('src') ?? el.getAttribute('href')) as string
+				] = {
+					integrity: el.getAttribute('integrity'),
+					crossorigin: el.getAttribute('crossorigin'),
+				};
+			},
+		})
+		.transform(await Bun.file(htmlPath).text());
+	return references;
+}
+
+function hashFile(filePath: string, algorithm: 'sha384' | 'sha512') {
+	const hasher = new Bun.CryptoHasher(algorithm);
+	hasher.update(new Uint8Array(fs.readFileSync(filePath)));
+	return `${algorithm}-${hasher.digest('base64')}`;
+}
+
+describe('Testing Subresource Integrity', async () => {
+	const generationDirectory = './test/generation/integrity';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/starting/index.html'],
+		outdir: path.join(generationDirectory, 'default'),
+		plugins: [html({ integrity: true })],
+	});
+	await Bun.build({
+		entrypoints: ['./test/starting/index.html'],
+		outdir: path.join(generationDirectory, 'sha512'),
+		plugins: [html({ integrity: 'sha512' })],
+	});
+
+	test('Scripts and stylesheets get the hash of their written file', async () => {
+		const directory = path.join(generationDirectory, 'default');
+		const references = await getReferences(path.join(directory, 'index.html'));
+		const emitted = Object.keys(references).filter((name) =>
+			/\.(js|css)$/.test(name),
+		);
+		expect(emitted).toHaveLength(4);
+		for (const name of emitted) {
+			expect(references[name]).toEqual({
+				integrity: hashFile(path.join(directory, name), 'sha384'),
+				crossorigin: 'anonymous',
+			});
+		}
+	});
+
+	test('Other files do not get an integrity attribute', async () => {
+		const references = await getReferences(
+			path.join(generationDirectory, 'default/index.html'),
+		);
+		expect(references['images/favicon.ico']).toEqual({
+			integrity: null,
+			crossorigin: null,
+		});
+	});
+
+	test('The hash algorithm can be chosen', async () => {
+		const directory = path.join(generationDirectory, 'sha512');
+		const references = await getReferences(path.join(directory, 'index.html'));
+		const name = Object.keys(references).find((name) => name.endsWith('.js'));
+		expect(references[name as string].integrity).toBe(
+			hashFile(path.join(directory, name as string), 'sha512'),
+		);
+	});
+});
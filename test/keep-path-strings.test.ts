@@ -27,6 +27,8 @@ describe('Testing keepOriginalPaths', async () => {
 		const content = await Bun.file(entryHtml).text();
 		expect(content.indexOf('x.ts') > -1).toBeTrue();
 		expect(content.indexOf('y.ts') > -1).toBeTrue();
+		expect(content.indexOf('data-src="x.ts"') > -1).toBeTrue();
+		expect(content.indexOf('src="y.ts"') > -1).toBeTrue();
 	});
 
 	test('Checking keepOriginalPaths is string[]', async () => {
@@ -47,8 +49,28 @@ describe('Testing keepOriginalPaths', async () => {
 		const entryHtml = `${generationDirectory}/keep-y.html`;
 		expect(fs.existsSync(entryHtml));
 		const content = await Bun.file(entryHtml).text();
-		expect(content.indexOf('x.ts') > -1).toBeFalse();
-		expect(content.indexOf('y.ts') > -1).toBeTrue();
+		expect(content.indexOf('data-src="x.ts"') > -1).toBeFalse();
+		expect(content.indexOf('src="y.ts"') > -1).toBeTrue();
+	});
+
+	test('Checking keepOriginalPaths is string[] in stylesheets', async () => {
+		await Bun.build({
+			entrypoints: ['./test/css-references/index.html'],
+			outdir: `${generationDirectory}/keep-pointer`,
+			plugins: [
+				html({
+					keepOriginalPaths: ['images/pointer.svg'],
+					naming: {
+						css: '[name].[ext]',
+					},
+				}),
+			],
+		});
+		const content = await Bun.file(
+			`${generationDirectory}/keep-pointer/main.css`,
+		).text();
+		expect(content.indexOf('../images/pointer.svg') > -1).toBeTrue();
+		expect(content.indexOf('../images/background.svg') > -1).toBeFalse();
 	});
 
 	test('Checking no keepOriginalPaths', async () => {
@@ -65,7 +87,11 @@ describe('Testing keepOriginalPaths', async () => {
 		const entryHtml = `${generationDirectory}/keep-none.html`;
 		expect(fs.existsSync(entryHtml));
 		const content = await Bun.file(entryHtml).text();
-		expect(content.indexOf('x.ts') > -1).toBeFalse();
-		expect(content.indexOf('y.ts') > -1).toBeFalse();
+		// only references are rewritten, text which happens to contain a path is left as is
+		expect(content).toMatch(/data-src="x-\w+\.js"/);
+		expect(content).toMatch(/<script type="module" src="y-\w+\.js">/);
+		expect(content.indexOf('content: "x.ts"') > -1).toBeTrue();
+		expect(content.indexOf('data-test="y.ts#hash"') > -1).toBeTrue();
+		expect(content.indexOf('fecth("y.ts?query")') > -1).toBeTrue();
 	});
 });
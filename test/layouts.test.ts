@@ -0,0 +1,47 @@
+import { describe } from 'bun:test';
+import fs from 'node:fs';
+import html from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+describe('Testing Layouts', async () => {
+	const generationDirectory = './test/generation/layouts';
+	const expectedDirectory = './test/expected/layouts';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/layouts/index.html', './test/layouts/about.html'],
+		outdir: generationDirectory,
+		naming: '[dir]/[name].[ext]',
+		plugins: [html()],
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+	testIfFileExists(generationDirectory, expectedDirectory, 'about.html');
+	testIfFileExists(generationDirectory, expectedDirectory, 'styles/main.css');
+	testIfFileExists(generationDirectory, expectedDirectory, 'styles/about.css');
+	testIfFileExists(generationDirectory, expectedDirectory, 'scripts/main.js');
+});
+
+describe('Testing Layouts used by a page in another directory', async () => {
+	const generationDirectory = './test/generation/layouts-directory';
+	const expectedDirectory = './test/expected/layouts-directory';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/layouts/blog/posts/post.html'],
+		outdir: generationDirectory,
+		naming: '[dir]/[name].[ext]',
+		plugins: [html()],
+	});
+
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'blog/posts/post.html',
+	);
+	testIfFileExists(generationDirectory, expectedDirectory, 'styles/main.css');
+	testIfFileExists(generationDirectory, expectedDirectory, 'scripts/main.js');
+	testIfFileExists(generationDirectory, expectedDirectory, 'images/cover.svg');
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html, { type Manifest } from '../src/index';
+import { emptyDir } from './utils';
+
+describe('Testing Manifest', async () => {
+	const generationDirectory = './test/generation/manifest';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/starting/index.html'],
+		outdir: generationDirectory,
+		plugins: [html({ manifest: true })],
+		naming: {
+			entry: '[dir]/[name].[ext]',
+			chunk: 'chunks/[name]-[hash].[ext]',
+			asset: 'assets/[name]-[hash].[ext]',
+		},
+	});
+
+	const manifest: Manifest = await Bun.file(
+		path.resolve(generationDirectory, 'manifest.json'),
+	).json();
+
+	test('Html entrypoint lists its files', () => {
+		const entry = manifest['index.html'];
+		expect(entry.isEntry).toBeTrue();
+		expect(entry.file).toBe('index.html');
+		expect(entry.js).toEqual([
+			manifest['main.ts'].file,
+			manifest['js/secondary.tsx'].file,
+		]);
+		expect(entry.css).toEqual([
+			manifest['main.css'].file,
+			manifest['tailwind.css'].file,
+		]);
+		expect(entry.assets).toContain(manifest['images/favicon.ico'].file);
+	});
+
+	test('Sources map to their hashed outputs', () => {
+		expect(manifest['main.ts'].file).toMatch(/^chunks\/main-\w+\.js$/);
+		expect(manifest['images/favicon.ico'].file).toMatch(
+			/^assets\/favicon-\w+\.ico$/,
+		);
+		expect(manifest['main.ts'].htmlImporter).toBe('index.html');
+	});
+
+	test('Every output in the manifest exists', () => {
+		for (const chunk of Object.values(manifest)) {
+			expect(
+				fs.existsSync(path.resolve(generationDirectory, chunk.file)),
+			).toBeTrue();
+		}
+	});
+});
+
+describe('Testing Manifest of pages sharing a stylesheet', async () => {
+	const generationDirectory = './test/generation/manifest-shared';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: [
+			'./test/manifest-shared/index.html',
+			'./test/manifest-shared/about.html',
+		],
+		outdir: generationDirectory,
+		plugins: [html({ manifest: true })],
+	});
+
+	const manifest: Manifest = await Bun.file(
+		path.resolve(generationDirectory, 'manifest.json'),
+	).json();
+
+	test('Every page lists the files referenced by the stylesheet', () => {
+		for (const page of ['index.html', 'about.html']) {
+			expect(manifest[page].css).toEqual([
+				manifest['styles/main.css'].file,
+				manifest['styles/colors.css'].file,
+			]);
+			expect(manifest[page].assets).toEqual([
+				manifest['images/background.svg'].file,
+				manifest['images/dot.svg'].file,
+			]);
+		}
+	});
+});
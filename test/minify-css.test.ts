@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+const stylesheets = [
+	'styles/plain.css',
+	'styles/nested.css',
+	'styles/indented.css',
+];
+
+describe('Testing Minification of Linked Stylesheets', async () => {
+	const generationDirectory = './test/generation/minify-css';
+	const expectedDirectory = './test/expected/minify-css';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	for (const experimentalCss of [false, true]) {
+		await Bun.build({
+			entrypoints: ['./test/minify-css/index.html'],
+			outdir: path.join(
+				generationDirectory,
+				experimentalCss ? 'experimental-css' : 'default',
+			),
+			plugins: [html()],
+			naming: '[dir]/[name].[ext]',
+			minify: true,
+			experimentalCss,
+		});
+	}
+
+	await Bun.build({
+		entrypoints: ['./test/minify-css/index.html'],
+		outdir: path.join(generationDirectory, 'skip-css'),
+		plugins: [
+			html({
+				minifyOptions: { minifyHTML: true, minifyCSS: false },
+			}),
+		],
+		naming: '[dir]/[name].[ext]',
+		minify: true,
+	});
+
+	for (const stylesheet of stylesheets) {
+		testIfFileExists(
+			path.join(generationDirectory, 'default'),
+			expectedDirectory,
+			stylesheet,
+		);
+	}
+
+	test('Stylesheets are the same with experimentalCss', () => {
+		for (const stylesheet of stylesheets) {
+			expect(
+				fs.readFileSync(
+					path.join(generationDirectory, 'experimental-css', stylesheet),
+					'utf8',
+				),
+			).toBe(
+				fs.readFileSync(
+					path.join(generationDirectory, 'default', stylesheet),
+					'utf8',
+				),
+			);
+		}
+	});
+
+	test('Stylesheets are compiled but not minified without minifyCSS', () => {
+		const css = fs.readFileSync(
+			path.join(generationDirectory, 'skip-css/styles/nested.css'),
+			'utf8',
+		);
+		expect(css).toBe(
+			'.card {\n  padding: 16px;\n  border-radius: 4px;\n}\n.card h1 {\n  margin: 0 0 8px;\n}',
+		);
+	});
+});
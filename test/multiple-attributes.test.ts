@@ -0,0 +1,31 @@
+import { describe } from 'bun:test';
+import fs from 'node:fs';
+import html from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+describe('Testing Generation of Multiple Attributes', async () => {
+	const generationDirectory = './test/generation/multiple-attributes';
+	const expectedDirectory = './test/expected/multiple-attributes';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/multiple-attributes/index.html'],
+		outdir: generationDirectory,
+		plugins: [html()],
+		naming: {
+			entry: '[dir]/[name].[ext]',
+			asset: 'assets/[name].[ext]',
+		},
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+	testIfFileExists(generationDirectory, expectedDirectory, 'assets/clip.mp4');
+	testIfFileExists(generationDirectory, expectedDirectory, 'assets/poster.svg');
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'assets/placeholder.svg',
+	);
+	testIfFileExists(generationDirectory, expectedDirectory, 'assets/full.svg');
+});
@@ -0,0 +1,57 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import html from '../src/index';
+import { emptyDir, testFileDoesntExist, testIfFileExists } from './utils';
+
+describe('Testing Placeholders', async () => {
+	const generationDirectory = './test/generation/placeholders';
+	const expectedDirectory = './test/expected/placeholders';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	const greeting = process.env.PUBLIC_GREETING;
+	process.env.PUBLIC_GREETING = 'Hello';
+	afterAll(() => {
+		if (greeting === undefined)
+			Reflect.deleteProperty(process.env, 'PUBLIC_GREETING');
+		else process.env.PUBLIC_GREETING = greeting;
+	});
+	await Bun.build({
+		entrypoints: ['./test/placeholders/index.html'],
+		outdir: generationDirectory,
+		naming: '[dir]/[name].[ext]',
+		define: {
+			APP_TITLE: '"Tom & Jerry"',
+			MODE: '"production"',
+			BUILD_TIME: '"2024-01-01"',
+		},
+		plugins: [html({ placeholders: true })],
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+	testIfFileExists(generationDirectory, expectedDirectory, 'styles/main.css');
+	testFileDoesntExist(generationDirectory, 'scripts/analytics.js');
+
+	// built in its own process, as bun test reports errors thrown by plugins even when they are caught
+	test('Unknown placeholders fail the build', () => {
+		const { exitCode, stderr } = Bun.spawnSync([
+			process.execPath,
+			'./test/placeholders/unknown.ts',
+		]);
+		expect(exitCode).not.toBe(0);
+		expect(stderr.toString()).toContain(
+			"Unknown placeholder '%PUBLIC_MISSING%'",
+		);
+	});
+
+	test('Placeholders are left alone unless enabled', async () => {
+		await Bun.build({
+			entrypoints: ['./test/placeholders/unknown.html'],
+			outdir: generationDirectory,
+			plugins: [html()],
+		});
+		expect(
+			fs.readFileSync(`${generationDirectory}/unknown.html`, 'utf8'),
+		).toContain('%PUBLIC_MISSING%');
+	});
+});
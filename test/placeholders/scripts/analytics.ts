@@ -0,0 +1 @@
+console.log('%PUBLIC_ANALYTICS_ID%');
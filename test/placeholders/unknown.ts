@@ -0,0 +1,7 @@
+import html from '../../src/index';
+
+await Bun.build({
+	entrypoints: ['./test/placeholders/unknown.html'],
+	outdir: './test/generation/placeholders',
+	plugins: [html({ placeholders: true })],
+});
@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html from '../src/index';
+import { emptyDir } from './utils';
+
+describe('Testing Files of the Same Name in Other Directories', async () => {
+	const generationDirectory = './test/generation/same-name';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: [
+			'./test/same-name/a/index.html',
+			'./test/same-name/b/index.html',
+		],
+		outdir: generationDirectory,
+		naming: {
+			entry: '[dir]/[name].[ext]',
+			asset: '[dir]/[name]-[hash].[ext]',
+		},
+		plugins: [html()],
+	});
+
+	for (const page of ['a', 'b']) {
+		test(`Page ${page} references its own file`, () => {
+			const directory = path.join(generationDirectory, page);
+			const src = fs
+				.readFileSync(path.join(directory, 'index.html'), 'utf8')
+				.match(/<img src="([^"]+)"/)?.[1] as string;
+			expect(src).toStartWith('logo-');
+			expect(fs.readFileSync(path.join(directory, src), 'utf8')).toBe(
+				fs.readFileSync(`./test/same-name/${page}/logo.svg`, 'utf8'),
+			);
+		});
+	}
+});
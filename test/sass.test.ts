@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html, { type SassOptions } from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+describe('Testing Sass Load Paths', async () => {
+	const generationDirectory = './test/generation/sass';
+	const expectedDirectory = './test/expected/sass';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/sass/index.html'],
+		outdir: generationDirectory,
+		plugins: [
+			html({
+				sassOptions: {
+					loadPaths: ['./test/sass/shared'],
+				},
+			}),
+		],
+		naming: '[dir]/[name].[ext]',
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+	testIfFileExists(generationDirectory, expectedDirectory, 'styles/main.css');
+});
+
+describe('Testing Sass Options Overriding Compilation', async () => {
+	const generationDirectory = './test/generation/sass-options';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/sass/indented.html'],
+		outdir: generationDirectory,
+		sourcemap: 'linked',
+		plugins: [
+			html({
+				// options the plugin sets itself, as passed from plain javascript
+				sassOptions: { syntax: 'scss', sourceMap: false } as SassOptions,
+			}),
+		],
+		naming: '[dir]/[name].[ext]',
+	});
+
+	test('Indented files are still compiled with their syntax and source maps', () => {
+		const css = fs.readFileSync(
+			path.join(generationDirectory, 'styles/indented.css'),
+			'utf8',
+		);
+		expect(css).toContain('sourceMappingURL=indented.css.map');
+		const sourceMap = JSON.parse(
+			fs.readFileSync(
+				path.join(generationDirectory, 'styles/indented.css.map'),
+				'utf8',
+			),
+		);
+		expect(sourceMap.sources).toContain('../../../sass/styles/indented.sass');
+	});
+});
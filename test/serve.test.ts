@@ -0,0 +1,131 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html, { serve } from '../src/index';
+import { emptyDir } from './utils';
+
+describe('Testing Dev Server', async () => {
+	const generationDirectory = './test/generation/serve';
+	const sourceDirectory = path.join(generationDirectory, 'src');
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+	fs.cpSync('./test/watch', sourceDirectory, { recursive: true });
+
+	const devServer = await serve(
+		{
+			entrypoints: [
+				path.join(sourceDirectory, 'index.html'),
+				path.join(sourceDirectory, 'about.html'),
+			],
+			naming: '[dir]/[name].[ext]',
+			plugins: [html()],
+		},
+		{ port: 0, debounce: 10 },
+	);
+	afterAll(() => devServer.close());
+
+	const url = (pathname: string) => new URL(pathname, devServer.server.url);
+	const messages: string[] = [];
+	const socket = new WebSocket(
+		url('/__bun-plugin-html').href.replace('http', 'ws'),
+	);
+	await new Promise((resolve) => socket.addEventListener('open', resolve));
+	const change = (file: string, content: string) => {
+		const message = new Promise<string>((resolve) =>
+			socket.addEventListener('message', (event) => resolve(event.data), {
+				once: true,
+			}),
+		);
+		fs.writeFileSync(path.join(sourceDirectory, file), content);
+		return message;
+	};
+
+	test('Html pages are served with the live reload client', async () => {
+		const response = await fetch(url('/'));
+		expect(response.headers.get('Content-Type')).toStartWith('text/html');
+		const text = await response.text();
+		expect(text).toContain('<script src="main.js"></script>');
+		expect(text).toContain('new WebSocket(`');
+
+		const about = await fetch(url('/about.html'));
+		expect(await about.text()).toContain('<script src="about.js"></script>');
+	});
+
+	test('Files are served from memory with their type', async () => {
+		const script = await fetch(url('/main.js'));
+		expect(script.headers.get('Content-Type')).toStartWith('text/javascript');
+		expect(await script.text()).toContain('Hello World');
+
+		const style = await fetch(url('/colors.css'));
+		expect(style.headers.get('Content-Type')).toStartWith('text/css');
+		expect(fs.existsSync(path.join(sourceDirectory, 'main.js'))).toBeFalse();
+	});
+
+	test('Unknown paths are not found', async () => {
+		expect((await fetch(url('/missing.js'))).status).toBe(404);
+	});
+
+	test('Stylesheet changes are swapped', async () => {
+		expect(await change('colors.css', 'body {\n\tcolor: blue;\n}\n')).toBe(
+			'css',
+		);
+		expect(await (await fetch(url('/colors.css'))).text()).toContain('blue');
+	});
+
+	test('Other changes reload the page', async () => {
+		expect(
+			await change('message.ts', "export const message = 'Hello Serve';\n"),
+		).toBe('reload');
+		expect(await (await fetch(url('/main.js'))).text()).toContain(
+			'Hello Serve',
+		);
+	});
+
+	test('Files which are no longer built are not served', async () => {
+		expect(
+			await change(
+				'index.html',
+				'<!DOCTYPE html>\n<head>\n\t<title>Watch</title>\n</head>\n<body>\n\t<script src="main.ts"></script>\n</body>\n',
+			),
+		).toBe('reload');
+		expect((await fetch(url('/main.css'))).status).toBe(404);
+		expect((await fetch(url('/main.js'))).status).toBe(200);
+		expect((await fetch(url('/about.js'))).status).toBe(200);
+	});
+});
+
+describe('Testing Dev Server with a Content Security Policy', async () => {
+	const devServer = await serve(
+		{
+			entrypoints: ['./test/csp/index.html'],
+			plugins: [html({ csp: true })],
+		},
+		{ port: 0 },
+	);
+	afterAll(() => devServer.close());
+
+	test('The live reload client is allowed by the policy', async () => {
+		const response = await fetch(new URL('/index.html', devServer.server.url));
+		let policy = '';
+		let script = '';
+		new HTMLRewriter()
+			.on('meta[http-equiv="Content-Security-Policy"]', {
+				element(el) {
+					policy = el.getAttribute('content') as string;
+				},
+			})
+			.on('script', {
+				element() {
+					script = '';
+				},
+				text(text) {
+					script += text.text;
+				},
+			})
+			.transform(await response.text());
+		expect(script).toContain('new WebSocket(`');
+		expect(policy).toContain(
+			`'sha256-${new Bun.CryptoHasher('sha256').update(script).digest('base64')}'`,
+		);
+	});
+});
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html from '../src/index';
+import { emptyDir } from './utils';
+
+describe('Testing Shared Chunks', async () => {
+	const generationDirectory = './test/generation/shared-chunks';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: [
+			'./test/shared-chunks/index.html',
+			'./test/shared-chunks/about.html',
+		],
+		outdir: generationDirectory,
+		plugins: [html({ manifest: true })],
+		splitting: true,
+	});
+
+	const read = (file: string) =>
+		fs.readFileSync(path.join(generationDirectory, file), 'utf8');
+	const getScript = (page: string) =>
+		read(page).match(/<script type="module" src="([^"]+)"><\/script>/)?.[1];
+
+	test('Every page references its own script', () => {
+		expect(getScript('index.html')).toMatch(/^home-\w+\.js$/);
+		expect(getScript('about.html')).toMatch(/^about-\w+\.js$/);
+	});
+
+	test('Code shared between pages is split into one chunk', () => {
+		const chunks = fs
+			.readdirSync(generationDirectory)
+			.filter((file) => file.startsWith('chunk-'));
+		expect(chunks).toHaveLength(1);
+		expect(read(chunks[0])).toContain('Hello from');
+
+		for (const page of ['index.html', 'about.html']) {
+			const script = read(getScript(page) as string);
+			expect(script).toContain(`from "./${chunks[0]}"`);
+			expect(script).not.toContain('Hello from');
+		}
+	});
+
+	test('The manifest lists the shared chunk for every page', () => {
+		const manifest = JSON.parse(read('manifest.json'));
+		const chunks = fs
+			.readdirSync(generationDirectory)
+			.filter((file) => file.startsWith('chunk-'));
+		expect(manifest['index.html'].imports).toEqual(chunks);
+		expect(manifest['about.html'].imports).toEqual(chunks);
+	});
+});
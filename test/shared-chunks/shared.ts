@@ -0,0 +1,3 @@
+export function greet(page: string) {
+	console.log(`Hello from ${page}`);
+}
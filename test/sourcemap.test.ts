@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html from '../src/index';
+import { emptyDir } from './utils';
+
+type SourceMap = { file: string; sources: string[]; sourcesContent: string[] };
+
+const sourceMapURLMatcher = /[#@] sourceMappingURL=(\S+?)(?: \*\/)?\s*$/;
+
+function getOutputs(directory: string) {
+	return fs
+		.readdirSync(directory, { recursive: true, encoding: 'utf8' })
+		.filter((file) => /\.(js|css)$/.test(file))
+		.map((file) => path.join(directory, file));
+}
+
+function getSourceMapURL(filePath: string) {
+	return fs.readFileSync(filePath, 'utf8').match(sourceMapURLMatcher)?.[1];
+}
+
+function getSources(filePath: string, sourceMap: SourceMap) {
+	return sourceMap.sources.map((source) =>
+		path.relative(
+			'./test/sourcemap',
+			path.resolve(path.dirname(filePath), source),
+		),
+	);
+}
+
+describe('Testing Source Maps', async () => {
+	const generationDirectory = './test/generation/sourcemap';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	for (const sourcemap of ['linked', 'inline', 'external', 'none'] as const) {
+		await Bun.build({
+			entrypoints: ['./test/sourcemap/index.html'],
+			outdir: path.join(generationDirectory, sourcemap),
+			plugins: [html({ naming: { css: '[dir]/[name]-[hash].css' } })],
+			minify: true,
+			sourcemap,
+		});
+	}
+
+	test('Linked maps are written next to the hashed outputs', () => {
+		const outputs = getOutputs(path.join(generationDirectory, 'linked'));
+		expect(outputs).toHaveLength(4);
+		for (const output of outputs) {
+			const url = getSourceMapURL(output);
+			expect(url).toBe(`${path.basename(output)}.map`);
+			const sourceMap: SourceMap = JSON.parse(
+				fs.readFileSync(`${output}.map`, 'utf8'),
+			);
+			expect(sourceMap.file).toBe(path.basename(output));
+		}
+	});
+
+	test('Sources point to the original files', () => {
+		const directory = path.join(generationDirectory, 'linked');
+		const sources = getOutputs(directory).map((output) =>
+			getSources(
+				output,
+				JSON.parse(fs.readFileSync(`${output}.map`, 'utf8')),
+			).sort(),
+		);
+		// inline modules are bundled from a file named after their html file
+		expect(sources.sort()).toEqual([
+			['index-module-0.ts', 'scripts/greet.ts'],
+			['scripts/greet.ts', 'scripts/main.ts'],
+			['styles/_colors.scss', 'styles/main.scss'],
+			['styles/plain.css'],
+		]);
+	});
+
+	test('Sass and plain stylesheets include their sources', () => {
+		const directory = path.join(generationDirectory, 'linked');
+		for (const output of getOutputs(directory).filter((file) =>
+			file.endsWith('.css'),
+		)) {
+			const sourceMap: SourceMap = JSON.parse(
+				fs.readFileSync(`${output}.map`, 'utf8'),
+			);
+			for (const [index, source] of sourceMap.sources.entries()) {
+				expect(sourceMap.sourcesContent[index]).toBe(
+					fs.readFileSync(path.resolve(path.dirname(output), source), 'utf8'),
+				);
+			}
+		}
+	});
+
+	test('Inline maps are embedded as data urls', () => {
+		const directory = path.join(generationDirectory, 'inline');
+		const outputs = getOutputs(directory);
+		expect(outputs).toHaveLength(4);
+		for (const output of outputs) {
+			const url = getSourceMapURL(output) ?? '';
+			expect(url).toStartWith('data:application/json;base64,');
+			const sourceMap: SourceMap = JSON.parse(
+				Buffer.from(url.split(',')[1], 'base64').toString('utf8'),
+			);
+			expect(sourceMap.file).toBe(path.basename(output));
+			expect(getSources(output, sourceMap).length).toBeGreaterThan(0);
+		}
+		expect(
+			fs
+				.readdirSync(directory, { recursive: true, encoding: 'utf8' })
+				.filter((file) => file.endsWith('.map')),
+		).toEqual([]);
+	});
+
+	test('External maps are written without a comment', () => {
+		const outputs = getOutputs(path.join(generationDirectory, 'external'));
+		expect(outputs).toHaveLength(4);
+		for (const output of outputs) {
+			expect(getSourceMapURL(output)).toBeUndefined();
+			expect(fs.existsSync(`${output}.map`)).toBe(true);
+		}
+	});
+
+	test('No maps are written by default', () => {
+		const directory = path.join(generationDirectory, 'none');
+		for (const output of getOutputs(directory)) {
+			expect(getSourceMapURL(output)).toBeUndefined();
+		}
+		expect(
+			fs
+				.readdirSync(directory, { recursive: true, encoding: 'utf8' })
+				.filter((file) => file.endsWith('.map')),
+		).toEqual([]);
+	});
+});
@@ -0,0 +1,4 @@
+import { greet } from './greet';
+
+const heading = document.querySelector('h1');
+if (heading) heading.textContent = greet('Source Maps');
@@ -0,0 +1,44 @@
+import { describe } from 'bun:test';
+import fs from 'node:fs';
+import html from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+describe('Testing Generation of Srcset', async () => {
+	const generationDirectory = './test/generation/srcset';
+	const expectedDirectory = './test/expected/srcset';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	await Bun.build({
+		entrypoints: ['./test/srcset/index.html'],
+		outdir: generationDirectory,
+		plugins: [html()],
+		naming: {
+			entry: '[dir]/[name].[ext]',
+			asset: 'assets/[name].[ext]',
+		},
+	});
+
+	testIfFileExists(generationDirectory, expectedDirectory, 'index.html');
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'assets/hero-480.svg',
+	);
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'assets/hero-960.svg',
+	);
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'assets/hero-1440.svg',
+	);
+	testIfFileExists(
+		generationDirectory,
+		expectedDirectory,
+		'assets/hero-wide.svg',
+	);
+	testIfFileExists(generationDirectory, expectedDirectory, 'assets/logo.svg');
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import html, { postcss, type StyleTransformer } from '../src/index';
+import { emptyDir, testIfFileExists } from './utils';
+
+// substitutes `@name: value;` variables, standing in for a less compiler
+const lessTransformer: StyleTransformer = (content) => {
+	const variables = new Map(
+		[...content.matchAll(/^@([\w-]+):\s*(.+);$/gm)].map((match) => [
+			match[1],
+			match[2],
+		]),
+	);
+	return {
+		css: content
+			.replace(/^@[\w-]+:.*\n/gm, '')
+			.replace(/@([\w-]+)/g, (match, name) => variables.get(name) ?? match),
+	};
+};
+
+describe('Testing Style Transformers', async () => {
+	const generationDirectory = './test/generation/style-transformers';
+	const expectedDirectory = './test/expected/style-transformers';
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+
+	const transformed: string[] = [];
+	await Bun.build({
+		entrypoints: ['./test/style-transformers/index.html'],
+		outdir: path.join(generationDirectory, 'default'),
+		plugins: [
+			html({
+				styleTransformers: {
+					'.css': postcss(),
+					'.less': (content, filePath, context) => {
+						transformed.push(filePath);
+						return lessTransformer(content, filePath, context);
+					},
+				},
+			}),
+		],
+		naming: '[dir]/[name].[ext]',
+	});
+
+	await Bun.build({
+		entrypoints: ['./test/style-transformers/index.html'],
+		outdir: path.join(generationDirectory, 'sourcemap'),
+		plugins: [html({ styleTransformers: { '.css': postcss() } })],
+		naming: '[dir]/[name].[ext]',
+		sourcemap: 'linked',
+	});
+
+	testIfFileExists(
+		path.join(generationDirectory, 'default'),
+		expectedDirectory,
+		'index.html',
+	);
+	testIfFileExists(
+		path.join(generationDirectory, 'default'),
+		expectedDirectory,
+		'styles/main.css',
+	);
+	testIfFileExists(
+		path.join(generationDirectory, 'default'),
+		expectedDirectory,
+		'styles/theme.css',
+	);
+
+	test('Transformers receive the path of the stylesheet', () => {
+		expect(transformed).toEqual([
+			path.resolve('./test/style-transformers/styles/theme.less'),
+		]);
+	});
+
+	test('PostCSS source maps point to the original stylesheet', () => {
+		const sourceMap = JSON.parse(
+			fs.readFileSync(
+				path.join(generationDirectory, 'sourcemap/styles/main.css.map'),
+				'utf8',
+			),
+		);
+		expect(sourceMap.sources).toEqual([
+			'../../../../style-transformers/styles/main.css',
+		]);
+	});
+});
@@ -0,0 +1,193 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { BuildOutput } from 'bun';
+import html, { watch } from '../src/index';
+import { emptyDir } from './utils';
+
+describe('Testing Watch', async () => {
+	const generationDirectory = './test/generation/watch';
+	const sourceDirectory = path.join(generationDirectory, 'src');
+	const outputDirectory = path.join(generationDirectory, 'dist');
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+	fs.cpSync('./test/watch', sourceDirectory, { recursive: true });
+
+	let onRebuild: (rebuild: { result: BuildOutput; changed: string[] }) => void =
+		() => {};
+	const change = (file: string, content: string) => {
+		const rebuilt = new Promise<{ result: BuildOutput; changed: string[] }>(
+			(resolve) => {
+				onRebuild = resolve;
+			},
+		);
+		fs.writeFileSync(path.join(sourceDirectory, file), content);
+		return rebuilt;
+	};
+	const outputs = (result: BuildOutput) =>
+		result.outputs
+			.map((output) => path.relative(outputDirectory, output.path))
+			.sort();
+	const read = (file: string) =>
+		fs.readFileSync(path.join(outputDirectory, file), 'utf8');
+
+	const watcher = await watch(
+		{
+			entrypoints: [
+				path.join(sourceDirectory, 'index.html'),
+				path.join(sourceDirectory, 'about.html'),
+				path.join(sourceDirectory, 'worker.ts'),
+			],
+			outdir: outputDirectory,
+			naming: '[dir]/[name].[ext]',
+			plugins: [html()],
+		},
+		{
+			debounce: 10,
+			onRebuild(result, changed) {
+				onRebuild({ result, changed });
+			},
+		},
+	);
+	afterAll(() => watcher.close());
+
+	test('Builds every entrypoint initially', () => {
+		expect(watcher.result.success).toBeTrue();
+		expect(outputs(watcher.result)).toEqual([
+			'about.html',
+			'about.js',
+			'colors.css',
+			'index.html',
+			'main.css',
+			'main.js',
+			'worker.js',
+		]);
+	});
+
+	test('Imported stylesheets rebuild their html file only', async () => {
+		const { result, changed } = await change(
+			'colors.css',
+			'body {\n\tcolor: blue;\n}\n',
+		);
+		expect(changed).toEqual([path.resolve(sourceDirectory, 'colors.css')]);
+		expect(outputs(result)).toEqual([
+			'colors.css',
+			'index.html',
+			'main.css',
+			'main.js',
+		]);
+		expect(read('colors.css')).toContain('blue');
+	});
+
+	test('Imported modules rebuild their html file only', async () => {
+		const { result } = await change(
+			'message.ts',
+			"export const message = 'Hello Watch';\n",
+		);
+		expect(outputs(result)).toContain('index.html');
+		expect(outputs(result)).not.toContain('about.html');
+		expect(read('main.js')).toContain('Hello Watch');
+		expect(read('index.html')).toContain('<script src="main.js">');
+	});
+
+	test('Other entrypoints are rebuilt on their own', async () => {
+		const { result } = await change('worker.ts', "console.log('Changed');\n");
+		expect(outputs(result)).toEqual(['worker.js']);
+		expect(read('worker.js')).toContain('Changed');
+		expect(read('about.js')).toContain('About');
+	});
+});
+
+describe('Testing Watch with a page in a subdirectory', async () => {
+	const generationDirectory = './test/generation/watch-directories';
+	const sourceDirectory = path.join(generationDirectory, 'src');
+	const outputDirectory = path.join(generationDirectory, 'dist');
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+	fs.cpSync('./test/watch-directories', sourceDirectory, { recursive: true });
+
+	let onRebuild: (result: BuildOutput) => void = () => {};
+	const outputs = (result: BuildOutput) =>
+		result.outputs
+			.map((output) => path.relative(outputDirectory, output.path))
+			.sort();
+
+	const watcher = await watch(
+		{
+			// the page listed first doesn't decide where the others are placed
+			entrypoints: [
+				path.join(sourceDirectory, 'sub/only.html'),
+				path.join(sourceDirectory, 'index.html'),
+			],
+			outdir: outputDirectory,
+			naming: '[dir]/[name].[ext]',
+			plugins: [html()],
+		},
+		{
+			debounce: 10,
+			onRebuild(result) {
+				onRebuild(result);
+			},
+		},
+	);
+	afterAll(() => watcher.close());
+
+	test('Pages are placed relative to every entrypoint', () => {
+		expect(outputs(watcher.result)).toEqual([
+			'index.html',
+			'index.js',
+			'sub/only.html',
+			'sub/only.js',
+		]);
+	});
+
+	test('Rebuilt pages keep their paths', async () => {
+		const rebuilt = new Promise<BuildOutput>((resolve) => {
+			onRebuild = resolve;
+		});
+		fs.writeFileSync(
+			path.join(sourceDirectory, 'sub/only.html'),
+			'<!DOCTYPE html>\n<body>\n\t<script src="only.ts"></script>\n</body>\n',
+		);
+		expect(outputs(await rebuilt)).toEqual(['sub/only.html', 'sub/only.js']);
+	});
+});
+
+describe('Testing Closing Watch', async () => {
+	const generationDirectory = './test/generation/watch-close';
+	const sourceDirectory = path.join(generationDirectory, 'src');
+
+	if (fs.existsSync(generationDirectory)) emptyDir(generationDirectory);
+	fs.cpSync('./test/watch', sourceDirectory, { recursive: true });
+
+	let started: () => void = () => {};
+	let finished = false;
+	const watcher = await watch(
+		{
+			entrypoints: [path.join(sourceDirectory, 'about.html')],
+			outdir: path.join(generationDirectory, 'dist'),
+			plugins: [html()],
+		},
+		{
+			debounce: 10,
+			async onRebuild() {
+				started();
+				await Bun.sleep(50);
+				finished = true;
+			},
+		},
+	);
+
+	test('Closing waits for the rebuild in progress', async () => {
+		const rebuilding = new Promise<void>((resolve) => {
+			started = resolve;
+		});
+		fs.writeFileSync(
+			path.join(sourceDirectory, 'about.ts'),
+			"console.log('Closing');\n",
+		);
+		await rebuilding;
+		await watcher.close();
+		expect(finished).toBeTrue();
+	});
+});